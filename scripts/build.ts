@@ -63,9 +63,16 @@ const buildEditorCore = async () => {
 };
 const buildDist = async () => {
   await runBuild([
+    "src/archive.ts",
     "src/cache.ts",
+    "src/collab.ts",
     "src/index.ts",
     "src/core.ts",
+    "src/file-explorer.ts",
+    "src/hierarchy.ts",
+    "src/merge.ts",
+    "src/problems.ts",
+    "src/search.ts",
     "src/shiki-wasm.ts",
     "src/util.ts",
     "src/workspace.ts",
@@ -0,0 +1,322 @@
+// ! external modules, don't remove the `.js` extension
+import { decode, encode } from "./util.js";
+
+export interface ArchiveEntry {
+  /** The relative path of the entry, directories end with a slash. */
+  name: string;
+  /** The content of the file, `null` for directories. */
+  content: Uint8Array | null;
+  /** The last modified time in milliseconds. */
+  mtime?: number;
+}
+
+let crcTable: Uint32Array | undefined;
+
+/** Calculate the CRC-32 checksum of the data. */
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+      let c = i;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[i] = c;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Pipe the data through a compression or decompression stream. */
+async function transform(data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const res = new Response(new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(stream));
+  return new Uint8Array(await res.arrayBuffer());
+}
+
+/** Concatenate the chunks into one Uint8Array. */
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const buf = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    buf.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return buf;
+}
+
+/** Check if the data is a gzip stream. */
+export function isGzip(data: Uint8Array): boolean {
+  return data[0] === 0x1f && data[1] === 0x8b;
+}
+
+/** Decompress the gzip data. */
+export function gunzip(data: Uint8Array): Promise<Uint8Array> {
+  return transform(data, new DecompressionStream("gzip"));
+}
+
+// #region zip
+
+/** Check if the data is a zip archive. */
+export function isZip(data: Uint8Array): boolean {
+  return data[0] === 0x50 && data[1] === 0x4b && (data[2] === 0x03 || data[2] === 0x05);
+}
+
+/** Create a zip archive, files are deflated if the `CompressionStream` API is available. */
+export async function createZip(entries: ArchiveEntry[]): Promise<Uint8Array> {
+  if (entries.length > 0xffff) {
+    throw new Error("zip: too many entries");
+  }
+  const chunks: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+  for (const { name, content, mtime } of entries) {
+    const nameBytes = encode(name);
+    const data = content ?? new Uint8Array(0);
+    const crc = crc32(data);
+    let method = 0;
+    let compressed = data;
+    if (data.length > 0 && typeof CompressionStream === "function") {
+      const deflated = await transform(data, new CompressionStream("deflate-raw"));
+      if (deflated.length < data.length) {
+        method = 8;
+        compressed = deflated;
+      }
+    }
+    if (offset > 0xffffffff || data.length > 0xffffffff) {
+      throw new Error("zip: archive is too large");
+    }
+    const [time, date] = toDosDateTime(mtime ?? Date.now());
+    const header = new Uint8Array(30 + nameBytes.length);
+    const hv = new DataView(header.buffer);
+    hv.setUint32(0, 0x04034b50, true);
+    hv.setUint16(4, 20, true);
+    hv.setUint16(6, 0x0800, true); // utf-8 names
+    hv.setUint16(8, method, true);
+    hv.setUint16(10, time, true);
+    hv.setUint16(12, date, true);
+    hv.setUint32(14, crc, true);
+    hv.setUint32(18, compressed.length, true);
+    hv.setUint32(22, data.length, true);
+    hv.setUint16(26, nameBytes.length, true);
+    header.set(nameBytes, 30);
+    const entry = new Uint8Array(46 + nameBytes.length);
+    const ev = new DataView(entry.buffer);
+    ev.setUint32(0, 0x02014b50, true);
+    ev.setUint16(4, 20, true);
+    ev.setUint16(6, 20, true);
+    ev.setUint16(8, 0x0800, true);
+    ev.setUint16(10, method, true);
+    ev.setUint16(12, time, true);
+    ev.setUint16(14, date, true);
+    ev.setUint32(16, crc, true);
+    ev.setUint32(20, compressed.length, true);
+    ev.setUint32(24, data.length, true);
+    ev.setUint16(28, nameBytes.length, true);
+    ev.setUint32(38, content ? 0 : 0x10, true); // directory attribute
+    ev.setUint32(42, offset, true);
+    entry.set(nameBytes, 46);
+    chunks.push(header, compressed);
+    centralDirectory.push(entry);
+    offset += header.length + compressed.length;
+  }
+  const centralDirectorySize = centralDirectory.reduce((size, entry) => size + entry.length, 0);
+  const end = new Uint8Array(22);
+  const dv = new DataView(end.buffer);
+  dv.setUint32(0, 0x06054b50, true);
+  dv.setUint16(8, entries.length, true);
+  dv.setUint16(10, entries.length, true);
+  dv.setUint32(12, centralDirectorySize, true);
+  dv.setUint32(16, offset, true);
+  return concat([...chunks, ...centralDirectory, end]);
+}
+
+/** Read the entries of a zip archive, supports stored and deflated entries. */
+export async function readZip(data: Uint8Array): Promise<ArchiveEntry[]> {
+  const dv = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (dv.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error("zip: end of central directory not found");
+  }
+  const count = dv.getUint16(eocd + 10, true);
+  const entries: ArchiveEntry[] = [];
+  let p = dv.getUint32(eocd + 16, true);
+  for (let i = 0; i < count; i++) {
+    if (dv.getUint32(p, true) !== 0x02014b50) {
+      throw new Error("zip: invalid central directory");
+    }
+    const method = dv.getUint16(p + 10, true);
+    const [time, date] = [dv.getUint16(p + 12, true), dv.getUint16(p + 14, true)];
+    const compressedSize = dv.getUint32(p + 20, true);
+    const nameLength = dv.getUint16(p + 28, true);
+    const extraLength = dv.getUint16(p + 30, true);
+    const commentLength = dv.getUint16(p + 32, true);
+    const localOffset = dv.getUint32(p + 42, true);
+    const name = decode(data.subarray(p + 46, p + 46 + nameLength));
+    p += 46 + nameLength + extraLength + commentLength;
+    const mtime = fromDosDateTime(time, date);
+    if (name.endsWith("/")) {
+      entries.push({ name, content: null, mtime });
+      continue;
+    }
+    const start = localOffset + 30 + dv.getUint16(localOffset + 26, true) + dv.getUint16(localOffset + 28, true);
+    const raw = data.subarray(start, start + compressedSize);
+    let content: Uint8Array;
+    if (method === 0) {
+      content = raw.slice();
+    } else if (method === 8) {
+      content = await transform(raw, new DecompressionStream("deflate-raw"));
+    } else {
+      throw new Error(`zip: unsupported compression method ${method} of ${name}`);
+    }
+    entries.push({ name, content, mtime });
+  }
+  return entries;
+}
+
+function toDosDateTime(ms: number): [time: number, date: number] {
+  const d = new Date(ms);
+  const year = Math.max(1980, d.getFullYear());
+  return [
+    (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+    ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  ];
+}
+
+function fromDosDateTime(time: number, date: number): number {
+  return new Date(
+    (date >> 9) + 1980,
+    ((date >> 5) & 0xf) - 1,
+    date & 0x1f,
+    time >> 11,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2,
+  ).getTime();
+}
+
+// #endregion
+
+// #region tar
+
+/** Create a ustar archive, long names are stored in pax headers. */
+export function createTar(entries: ArchiveEntry[]): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  for (const { name, content, mtime = Date.now() } of entries) {
+    const nameBytes = encode(name);
+    let [prefix, shortName] = ["", name];
+    if (nameBytes.length > 100) {
+      const i = name.lastIndexOf("/", name.length - 2);
+      if (i > 0 && encode(name.slice(0, i)).length <= 155 && encode(name.slice(i + 1)).length <= 100) {
+        [prefix, shortName] = [name.slice(0, i), name.slice(i + 1)];
+      } else {
+        // use a pax extended header for the long name
+        const record = (len: number) => `${len} path=${name}\n`;
+        let len = encode(record(0)).length;
+        while (encode(record(len)).length !== len) {
+          len = encode(record(len)).length;
+        }
+        const pax = encode(record(len));
+        chunks.push(tarHeader("PaxHeader", "", "x", pax.length, mtime), pax, tarPadding(pax.length));
+        shortName = name.slice(-100);
+      }
+    }
+    const size = content ? content.length : 0;
+    chunks.push(tarHeader(shortName, prefix, content ? "0" : "5", size, mtime));
+    if (content) {
+      chunks.push(content, tarPadding(size));
+    }
+  }
+  // end of archive
+  chunks.push(new Uint8Array(1024));
+  return concat(chunks);
+}
+
+/** Read the entries of a tar archive. */
+export function readTar(data: Uint8Array): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  const readString = (start: number, length: number) => {
+    const bytes = data.subarray(start, start + length);
+    const end = bytes.indexOf(0);
+    return decode(end === -1 ? bytes : bytes.subarray(0, end));
+  };
+  const readOctal = (start: number, length: number) => parseInt(readString(start, length).trim() || "0", 8);
+  let longName: string | undefined;
+  let p = 0;
+  while (p + 512 <= data.length) {
+    if (data.subarray(p, p + 512).every((b) => b === 0)) {
+      break;
+    }
+    let name = readString(p, 100);
+    const size = readOctal(p + 124, 12);
+    const mtime = readOctal(p + 136, 12) * 1000;
+    const type = String.fromCharCode(data[p + 156] || 0x30);
+    if (readString(p + 257, 6).startsWith("ustar")) {
+      const prefix = readString(p + 345, 155);
+      if (prefix) {
+        name = prefix + "/" + name;
+      }
+    }
+    const start = p + 512;
+    const content = data.subarray(start, start + size);
+    p = start + Math.ceil(size / 512) * 512;
+    if (type === "x") {
+      const match = decode(content).match(/(?:^|\n)\d+ path=([^\n]*)\n/);
+      if (match) {
+        longName = match[1];
+      }
+      continue;
+    }
+    if (type === "L") {
+      longName = readString(start, size);
+      continue;
+    }
+    if (longName) {
+      name = longName;
+      longName = undefined;
+    }
+    if (type === "5") {
+      entries.push({ name: name.endsWith("/") ? name : name + "/", content: null, mtime });
+    } else if (type === "0" || type === "7") {
+      entries.push({ name, content: content.slice(), mtime });
+    }
+  }
+  return entries;
+}
+
+function tarHeader(name: string, prefix: string, type: string, size: number, mtime: number): Uint8Array {
+  const header = new Uint8Array(512);
+  const write = (value: string, start: number, length: number) => {
+    header.set(encode(value).subarray(0, length), start);
+  };
+  const writeOctal = (value: number, start: number, length: number) => {
+    write(value.toString(8).padStart(length - 1, "0"), start, length - 1);
+  };
+  write(name, 0, 100);
+  writeOctal(type === "5" ? 0o755 : 0o644, 100, 8);
+  writeOctal(0, 108, 8);
+  writeOctal(0, 116, 8);
+  writeOctal(size, 124, 12);
+  writeOctal(Math.floor(mtime / 1000), 136, 12);
+  write(" ".repeat(8), 148, 8);
+  write(type, 156, 1);
+  write("ustar\0" + "00", 257, 8);
+  write(prefix, 345, 155);
+  const checksum = header.reduce((sum, b) => sum + b, 0);
+  write(checksum.toString(8).padStart(6, "0") + "\0 ", 148, 8);
+  return header;
+}
+
+function tarPadding(size: number): Uint8Array {
+  return new Uint8Array((512 - (size % 512)) % 512);
+}
+
+// #endregion
@@ -0,0 +1,576 @@
+import type monacoNS from "monaco-editor-core";
+import type {
+  CollabMessage,
+  CollaborationOptions,
+  CollabSelection,
+  CollabTransport,
+  CollabUser,
+  SharedText,
+  TextChange,
+} from "../types/workspace.d.ts";
+
+/** the id of a character, the clock is a lamport timestamp. */
+type ItemId = [client: string, clock: number];
+
+interface RGAItem {
+  id: ItemId;
+  /** the id of the character on the left side when the character is inserted. */
+  origin: ItemId | null;
+  char: string;
+  deleted: boolean;
+}
+
+/** a run of characters, the character `i` has the clock `id[1] + i` and is inserted after the character `i - 1`. */
+interface RGAInsert {
+  id: ItemId;
+  origin: ItemId | null;
+  text: string;
+}
+
+interface RGAUpdate {
+  inserts?: RGAInsert[];
+  deletes?: ItemId[];
+  /** the inserts are in the document order, the text can be built by appending the characters. */
+  snapshot?: boolean;
+}
+
+/** the client of the initial text, the peers with the same initial text share the same characters. */
+const BASE_CLIENT = "";
+
+const idKey = (id: ItemId) => id[0] + ":" + id[1];
+
+/** compare the ids by the clock, then by the client. */
+function compareIds(a: ItemId, b: ItemId): number {
+  return a[1] - b[1] || (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0);
+}
+
+/** append the change, the adjacent changes are merged. */
+function pushChange(changes: TextChange[], change: TextChange) {
+  const last = changes.at(-1);
+  if (last && last.length === 0 && change.length === 0 && change.offset === last.offset + last.text.length) {
+    last.text += change.text;
+  } else if (last && last.text === "" && change.text === "" && change.offset === last.offset) {
+    last.length += change.length;
+  } else {
+    changes.push(change);
+  }
+}
+
+/**
+ * The built-in shared text, a replicated growable array (RGA) of the characters.
+ * The deleted characters are kept as tombstones, so the concurrent inserts next to them can be ordered.
+ */
+export class RGAText implements SharedText {
+  private _client: string;
+  private _clock: number;
+  private _items: RGAItem[] = [];
+  private _index = new Map<string, RGAItem>();
+  private _pendingInserts: RGAInsert[] = [];
+  private _pendingDeletes: ItemId[] = [];
+
+  constructor(client: string, text = "") {
+    this._client = client;
+    this._clock = text.length;
+    let origin: ItemId | null = null;
+    for (let i = 0; i < text.length; i++) {
+      const item: RGAItem = { id: [BASE_CLIENT, i + 1], origin, char: text[i], deleted: false };
+      this._items.push(item);
+      this._index.set(idKey(item.id), item);
+      origin = item.id;
+    }
+  }
+
+  getText(): string {
+    let text = "";
+    for (const item of this._items) {
+      if (!item.deleted) {
+        text += item.char;
+      }
+    }
+    return text;
+  }
+
+  applyLocalChanges(changes: TextChange[]): RGAUpdate {
+    const inserts: RGAInsert[] = [];
+    const deletes: ItemId[] = [];
+    for (const { offset, length, text } of changes) {
+      let index = this._indexAt(offset);
+      for (let deleted = 0; deleted < length && index < this._items.length; index++) {
+        const item = this._items[index];
+        if (!item.deleted) {
+          item.deleted = true;
+          deletes.push(item.id);
+          deleted++;
+        }
+      }
+      if (text) {
+        // the local characters have the greatest clocks, so they are inserted right after the origin
+        const origin = offset > 0 ? this._items[this._indexAt(offset - 1)].id : null;
+        const originIndex = origin ? this._items.indexOf(this._index.get(idKey(origin))!) : -1;
+        const id: ItemId = [this._client, this._clock + 1];
+        const items: RGAItem[] = [];
+        let prev = origin;
+        for (let i = 0; i < text.length; i++) {
+          const item: RGAItem = { id: [this._client, ++this._clock], origin: prev, char: text[i], deleted: false };
+          this._index.set(idKey(item.id), item);
+          items.push(item);
+          prev = item.id;
+        }
+        this._items.splice(originIndex + 1, 0, ...items);
+        inserts.push({ id, origin, text });
+      }
+    }
+    return { inserts, deletes };
+  }
+
+  applyUpdate(update: unknown): TextChange[] {
+    const { inserts = [], deletes = [], snapshot } = update as RGAUpdate;
+    const changes: TextChange[] = [];
+    if (snapshot && this._items.length === 0) {
+      // build the text from the snapshot of a peer directly
+      const deleted = new Set(deletes.map(idKey));
+      for (const { id: [client, clock], origin, text } of inserts) {
+        let prev = origin;
+        for (let i = 0; i < text.length; i++) {
+          const id: ItemId = [client, clock + i];
+          const item: RGAItem = { id, origin: prev, char: text[i], deleted: deleted.has(idKey(id)) };
+          this._items.push(item);
+          this._index.set(idKey(id), item);
+          this._clock = Math.max(this._clock, clock + i);
+          prev = id;
+        }
+      }
+      const text = this.getText();
+      if (text) {
+        changes.push({ offset: 0, length: 0, text });
+      }
+    }
+    // the inserts and deletes may arrive before the characters they depend on, they are kept pending until then
+    const pendingInserts = [...this._pendingInserts, ...inserts];
+    for (let progress = true; progress;) {
+      progress = false;
+      for (let i = 0; i < pendingInserts.length; i++) {
+        const insert = pendingInserts[i];
+        if (!insert.origin || this._index.has(idKey(insert.origin))) {
+          pendingInserts.splice(i--, 1);
+          this._integrate(insert, changes);
+          progress = true;
+        }
+      }
+    }
+    this._pendingInserts = pendingInserts;
+    this._pendingDeletes = [...this._pendingDeletes, ...deletes].filter((id) => {
+      const item = this._index.get(idKey(id));
+      if (!item) {
+        return true;
+      }
+      if (!item.deleted) {
+        pushChange(changes, { offset: this._offsetOf(this._items.indexOf(item)), length: 1, text: "" });
+        item.deleted = true;
+      }
+      return false;
+    });
+    return changes;
+  }
+
+  encodeState(): RGAUpdate {
+    const inserts: RGAInsert[] = [];
+    const deletes: ItemId[] = [];
+    let run: RGAInsert | undefined;
+    let prev: RGAItem | undefined;
+    for (const item of this._items) {
+      const { id, origin } = item;
+      if (run && prev && origin && idKey(origin) === idKey(prev.id) && id[0] === prev.id[0] && id[1] === prev.id[1] + 1) {
+        run.text += item.char;
+      } else {
+        run = { id, origin, text: item.char };
+        inserts.push(run);
+      }
+      if (item.deleted) {
+        deletes.push(id);
+      }
+      prev = item;
+    }
+    return { inserts, deletes, snapshot: true };
+  }
+
+  createRelativePosition(offset: number): ItemId | null {
+    const index = this._indexAt(offset);
+    return index < this._items.length ? this._items[index].id : null;
+  }
+
+  resolveRelativePosition(position: unknown): number | null {
+    if (position === null) {
+      return this._offsetOf(this._items.length);
+    }
+    const item = Array.isArray(position) ? this._index.get(idKey(position as ItemId)) : undefined;
+    return item ? this._offsetOf(this._items.indexOf(item)) : null;
+  }
+
+  /** insert the characters of a peer, the existing characters are skipped. */
+  private _integrate(insert: RGAInsert, changes: TextChange[]) {
+    const [client, clock] = insert.id;
+    let origin = insert.origin;
+    for (let i = 0; i < insert.text.length; i++) {
+      const id: ItemId = [client, clock + i];
+      if (!this._index.has(idKey(id))) {
+        let index = origin ? this._items.indexOf(this._index.get(idKey(origin))!) + 1 : 0;
+        // the concurrent inserts after the same origin are ordered by the id, the greater first
+        while (index < this._items.length && compareIds(this._items[index].id, id) > 0) {
+          index++;
+        }
+        const item: RGAItem = { id, origin, char: insert.text[i], deleted: false };
+        this._items.splice(index, 0, item);
+        this._index.set(idKey(id), item);
+        this._clock = Math.max(this._clock, clock + i);
+        pushChange(changes, { offset: this._offsetOf(index), length: 0, text: item.char });
+      }
+      origin = id;
+    }
+  }
+
+  /** get the index of the item at the offset of the text, or the length of the items if the offset is at the end. */
+  private _indexAt(offset: number): number {
+    let count = 0;
+    for (let i = 0; i < this._items.length; i++) {
+      if (!this._items[i].deleted) {
+        if (count === offset) {
+          return i;
+        }
+        count++;
+      }
+    }
+    return this._items.length;
+  }
+
+  /** get the offset of the item in the text. */
+  private _offsetOf(index: number): number {
+    let offset = 0;
+    for (let i = 0; i < index; i++) {
+      if (!this._items[i].deleted) {
+        offset++;
+      }
+    }
+    return offset;
+  }
+}
+
+/** a transport that exchanges the messages between the browser tabs of the same origin. */
+export class BroadcastChannelTransport implements CollabTransport {
+  private _channel: BroadcastChannel;
+
+  constructor(name = "modern-monaco-collaboration") {
+    this._channel = new BroadcastChannel(name);
+  }
+
+  send(message: CollabMessage): void {
+    this._channel.postMessage(message);
+  }
+
+  onMessage(handler: (message: CollabMessage) => void): () => void {
+    const listener = (e: MessageEvent) => handler(e.data);
+    this._channel.addEventListener("message", listener);
+    return () => {
+      this._channel.removeEventListener("message", listener);
+    };
+  }
+
+  close(): void {
+    this._channel.close();
+  }
+}
+
+interface CollabDocument {
+  text: SharedText;
+  model: monacoNS.editor.ITextModel;
+  /** whether the text is synced with a peer or edited locally, the first state of a peer replaces the text if not. */
+  synced: boolean;
+  /** whether the changes of the peers are being applied to the model. */
+  applying: boolean;
+  /** the version id of the model after the last changes of the peers. */
+  remoteVersionId: number;
+  decorations: string[];
+}
+
+interface CollabPeer {
+  user: CollabUser;
+  /** the index of the CSS classes of the peer. */
+  index: number;
+  url?: string;
+  selections?: CollabSelection[];
+}
+
+const toRange = (start: monacoNS.IPosition, end: monacoNS.IPosition): monacoNS.IRange => ({
+  startLineNumber: start.lineNumber,
+  startColumn: start.column,
+  endLineNumber: end.lineNumber,
+  endColumn: end.column,
+});
+
+/** invert the changes that are applied to the text in order, the inverted changes are applied from the end too. */
+function invertChanges(text: string, changes: TextChange[]): TextChange[] {
+  // the changes are sorted by offset descending, the offsets of the inverted changes include the preceding changes
+  let delta = 0;
+  const inverted: TextChange[] = [];
+  for (const { offset, length, text: newText } of [...changes].reverse()) {
+    inverted.push({ offset: offset + delta, length: newText.length, text: text.slice(offset, offset + length) });
+    delta += newText.length - length;
+  }
+  return inverted.reverse();
+}
+
+const COLORS = ["#e06c75", "#61afef", "#98c379", "#c678dd", "#e5c07b", "#56b6c2", "#d19a66", "#be5046"];
+
+/** bind the models of the workspace to the shared texts, and render the cursors and selections of the peers. */
+export class Collaboration {
+  private _client = Math.random().toString(36).slice(2, 10);
+  private _transport: CollabTransport;
+  private _user: CollabUser;
+  private _createSharedText: (client: string, text: string) => SharedText;
+  private _documents = new Map<string, CollabDocument>();
+  private _peers = new Map<string, CollabPeer>();
+  private _peerIndex = 0;
+  private _activeEditor?: monacoNS.editor.ICodeEditor;
+  private _styleEl?: HTMLStyleElement;
+
+  constructor(options: CollaborationOptions) {
+    this._transport = options.transport;
+    this._user = options.user ?? { name: "User " + this._client.slice(0, 4) };
+    this._createSharedText = options.createSharedText ?? ((client, text) => new RGAText(client, text));
+    this._transport.onMessage((message) => this._onMessage(message));
+    if (typeof addEventListener === "function") {
+      addEventListener("pagehide", () => this._transport.send({ type: "leave", client: this._client }));
+    }
+  }
+
+  /** bind the model to the shared text, returns the function to unbind it. */
+  bindModel(model: monacoNS.editor.ITextModel, url: string): () => void {
+    const doc: CollabDocument = {
+      text: this._createSharedText(this._client, model.getValue()),
+      model,
+      synced: false,
+      applying: false,
+      remoteVersionId: 0,
+      decorations: [],
+    };
+    const disposable = model.onDidChangeContent((e) => {
+      if (doc.applying) {
+        return;
+      }
+      // the changes are applied from the end of the text, so the offsets of the other changes stay valid
+      const changes = e.changes
+        .map(({ rangeOffset, rangeLength, text }) => ({ offset: rangeOffset, length: rangeLength, text }))
+        .sort((a, b) => b.offset - a.offset);
+      // the undo stops recorded before the changes of the peers have stale ranges, revert the undo/redo
+      if ((e.isUndoing || e.isRedoing) && model.getAlternativeVersionId() < doc.remoteVersionId) {
+        this._applyChanges(doc, invertChanges(doc.text.getText(), changes));
+        return;
+      }
+      doc.synced = true;
+      this._transport.send({ type: "update", client: this._client, url, update: doc.text.applyLocalChanges(changes) });
+    });
+    this._documents.set(url, doc);
+    this._transport.send({ type: "join", client: this._client, url });
+    this._render(url);
+    return () => {
+      disposable.dispose();
+      if (!model.isDisposed()) {
+        model.deltaDecorations(doc.decorations, []);
+      }
+      this._documents.delete(url);
+    };
+  }
+
+  /** check if the changes of the peers are being applied to the model of the url. */
+  isApplying(url: string): boolean {
+    return this._documents.get(url)?.applying ?? false;
+  }
+
+  /** send the selections of the editor to the peers. */
+  bindEditor(editor: monacoNS.editor.ICodeEditor) {
+    const send = () => {
+      if (!this._activeEditor || this._activeEditor === editor) {
+        this._sendAwareness(editor);
+      }
+    };
+    editor.onDidFocusEditorWidget(() => {
+      this._activeEditor = editor;
+      send();
+    });
+    editor.onDidChangeCursorSelection(send);
+    editor.onDidChangeModel(send);
+    editor.onDidDispose(() => {
+      if (this._activeEditor === editor) {
+        this._activeEditor = undefined;
+      }
+    });
+  }
+
+  private _sendAwareness(editor = this._activeEditor) {
+    const model = editor?.getModel();
+    const url = model?.uri.toString();
+    const doc = url ? this._documents.get(url) : undefined;
+    const selections = doc && editor!.getSelections()?.map((selection) => ({
+      anchor: doc.text.createRelativePosition(doc.model.getOffsetAt(selection.getSelectionStart())),
+      head: doc.text.createRelativePosition(doc.model.getOffsetAt(selection.getPosition())),
+    }));
+    this._transport.send({
+      type: "awareness",
+      client: this._client,
+      user: this._user,
+      url: doc ? url : undefined,
+      selections,
+    });
+  }
+
+  private _onMessage(message: CollabMessage) {
+    if (message.client === this._client) {
+      // the transport may echo the messages back
+      return;
+    }
+    switch (message.type) {
+      case "join": {
+        const doc = this._documents.get(message.url);
+        if (doc) {
+          const update = doc.text.encodeState();
+          this._transport.send({ type: "state", client: this._client, url: message.url, to: message.client, update });
+        }
+        this._sendAwareness();
+        break;
+      }
+      case "state": {
+        const doc = this._documents.get(message.url);
+        if (doc && message.to === this._client) {
+          if (!doc.synced) {
+            // take the text of the peer instead of merging the local text that may differ from it
+            doc.text = this._createSharedText(this._client, "");
+            doc.text.applyUpdate(message.update);
+            doc.synced = true;
+            this._applyChanges(doc, [{ offset: 0, length: doc.model.getValueLength(), text: doc.text.getText() }]);
+          } else {
+            this._applyChanges(doc, doc.text.applyUpdate(message.update));
+          }
+          this._render(message.url);
+        }
+        break;
+      }
+      case "update": {
+        const doc = this._documents.get(message.url);
+        if (doc) {
+          this._applyChanges(doc, doc.text.applyUpdate(message.update));
+        }
+        break;
+      }
+      case "awareness": {
+        const { client, user, url, selections } = message;
+        const peer = this._peers.get(client);
+        const prevUrl = peer?.url;
+        if (peer) {
+          const userChanged = peer.user.name !== user.name || peer.user.color !== user.color;
+          Object.assign(peer, { user, url, selections });
+          if (userChanged) {
+            this._updateStyle();
+          }
+        } else {
+          this._peers.set(client, { user, index: this._peerIndex++, url, selections });
+          this._updateStyle();
+        }
+        if (prevUrl && prevUrl !== url) {
+          this._render(prevUrl);
+        }
+        if (url) {
+          this._render(url);
+        }
+        break;
+      }
+      case "leave": {
+        const url = this._peers.get(message.client)?.url;
+        this._peers.delete(message.client);
+        if (url) {
+          this._render(url);
+        }
+        break;
+      }
+    }
+  }
+
+  /** apply the changes of the peers to the model in order. */
+  private _applyChanges(doc: CollabDocument, changes: TextChange[]) {
+    const { model } = doc;
+    if (changes.length === 0 || model.isDisposed()) {
+      return;
+    }
+    doc.applying = true;
+    try {
+      // the changes of the peers are not added to the undo stack, close the current undo stop
+      // so the local edits before and after the changes are undone separately
+      model.pushStackElement();
+      for (const { offset, length, text } of changes) {
+        const range = toRange(model.getPositionAt(offset), model.getPositionAt(offset + length));
+        model.applyEdits([{ range, text }]);
+      }
+      doc.remoteVersionId = model.getVersionId();
+    } finally {
+      doc.applying = false;
+    }
+  }
+
+  /** render the cursors and selections of the peers in the document. */
+  private _render(url: string) {
+    const doc = this._documents.get(url);
+    if (!doc || doc.model.isDisposed()) {
+      return;
+    }
+    const { model, text } = doc;
+    const decorations: monacoNS.editor.IModelDeltaDecoration[] = [];
+    for (const { user, index, url: peerUrl, selections } of this._peers.values()) {
+      if (peerUrl !== url || !selections) {
+        continue;
+      }
+      for (const { anchor, head } of selections) {
+        const anchorOffset = text.resolveRelativePosition(anchor);
+        const headOffset = text.resolveRelativePosition(head);
+        if (anchorOffset === null || headOffset === null) {
+          continue;
+        }
+        const start = model.getPositionAt(Math.min(anchorOffset, headOffset));
+        const end = model.getPositionAt(Math.max(anchorOffset, headOffset));
+        const cursor = model.getPositionAt(headOffset);
+        if (anchorOffset !== headOffset) {
+          decorations.push({
+            range: toRange(start, end),
+            options: { className: "monaco-collab-selection-" + index, stickiness: 1 },
+          });
+        }
+        decorations.push({
+          range: toRange(cursor, cursor),
+          options: { beforeContentClassName: "monaco-collab-cursor-" + index, hoverMessage: { value: user.name }, stickiness: 1 },
+        });
+      }
+    }
+    doc.decorations = model.deltaDecorations(doc.decorations, decorations);
+  }
+
+  /** update the CSS of the cursors and selections of the peers. */
+  private _updateStyle() {
+    if (typeof document === "undefined") {
+      return;
+    }
+    if (!this._styleEl) {
+      this._styleEl = document.createElement("style");
+      this._styleEl.id = "monaco-collab-css";
+      document.head.appendChild(this._styleEl);
+    }
+    let css = "";
+    for (const { user, index } of this._peers.values()) {
+      const color = user.color && globalThis.CSS?.supports("color", user.color) ? user.color : COLORS[index % COLORS.length];
+      // the name is quoted as a CSS string, the control characters are removed
+      const name = JSON.stringify(user.name.replace(/[\x00-\x1f\x7f]/g, ""));
+      css += `.monaco-collab-selection-${index}{background-color:color-mix(in srgb,${color} 25%,transparent)}`;
+      css += `.monaco-collab-cursor-${index}{position:relative;border-left:2px solid ${color};margin-left:-1px}`;
+      css += `.monaco-collab-cursor-${index}::after{content:${name};position:absolute;left:-2px;top:-1.2em;padding:0 3px;`
+        + `font-size:10px;line-height:1.2em;white-space:nowrap;pointer-events:none;color:#fff;background-color:${color}}`;
+    }
+    this._styleEl.textContent = css;
+  }
+}
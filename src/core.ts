@@ -1,15 +1,29 @@
 import type monacoNS from "monaco-editor-core";
 import type { Highlighter, RenderOptions, ShikiInitOptions } from "./shiki.ts";
 import type { LSPConfig, LSPProvider } from "./lsp/index.ts";
+import type { WorkspaceEditorGroup, WorkspaceSearchMatch } from "../types/workspace.d.ts";
 import { version } from "../package.json";
 
 // ! external modules, don't remove the `.js` extension
 import { getExtnameFromLanguageId, getLanguageIdFromPath, grammars, initShiki, setDefaultWasmLoader, themes } from "./shiki.js";
 import { initShikiMonacoTokenizer, registerShikiMonacoTokenizer } from "./shiki.js";
-import { render } from "./shiki.js";
+import { render, renderTabBar, TAB_BAR_HEIGHT } from "./shiki.js";
 import { getWasmInstance } from "./shiki-wasm.js";
-import { NotFoundError, Workspace } from "./workspace.js";
-import { debunce, decode, isDigital } from "./util.js";
+import { BroadcastChannelTransport } from "./collab.js";
+import { defineFileExplorer } from "./file-explorer.js";
+import { showCallHierarchy, showTypeHierarchy } from "./hierarchy.js";
+import { defineProblems } from "./problems.js";
+import { fuzzyMatchPath } from "./search.js";
+import {
+  IndexedDBFileSystem,
+  LocalFileSystem,
+  MemoryFileSystem,
+  NotFoundError,
+  OPFSFileSystem,
+  OverlayFileSystem,
+  Workspace,
+} from "./workspace.js";
+import { debunce, decode, filenameToURL, isDigital } from "./util.js";
 
 export interface InitOptions extends ShikiInitOptions {
   /**
@@ -35,10 +49,12 @@ const editorProps = [
   "fontSize",
   "fontVariations",
   "fontWeight",
+  "formatOnType",
   "letterSpacing",
   "lineHeight",
   "lineNumbers",
   "lineNumbersMinChars",
+  "linkedEditing",
   "matchBrackets",
   "minimap",
   "mouseStyle",
@@ -73,8 +89,13 @@ export async function init(options?: InitOptions): Promise<typeof monacoNS> {
 
 /** Render a mock editor, then load the monaco editor in background. */
 export function lazy(options?: InitOptions) {
+  if (options?.workspace) {
+    defineFileExplorer(options.workspace);
+    defineProblems(options.workspace);
+  }
   if (!customElements.get("monaco-editor")) {
     let monacoPromise: Promise<typeof monacoNS> | null = null;
+    let unnamedGroups = 0;
     customElements.define(
       "monaco-editor",
       class extends HTMLElement {
@@ -82,6 +103,10 @@ export function lazy(options?: InitOptions) {
           const workspace = options?.workspace;
           const renderOptions: RenderOptions = {};
 
+          // each editor is bound to an editor group of the workspace, the first editor without `group` attribute uses the "main" group
+          const groupId = getAttr(this, "group") ?? (unnamedGroups++ === 0 ? "main" : "group-" + unnamedGroups);
+          const group = workspace?.getEditorGroup(groupId);
+
           // parse editor/render options from attributes
           for (const attrName of this.getAttributeNames()) {
             const key = editorProps.find((k) => k.toLowerCase() === attrName);
@@ -183,21 +208,38 @@ export function lazy(options?: InitOptions) {
           setStyle(containerEl, { width: "100%", height: "100%" });
           this.appendChild(containerEl);
 
-          if (!filename && workspace) {
-            if (workspace.history.state.current) {
-              filename = workspace.history.state.current;
+          // show the tab bar of the open files if the `tabs` attribute is set or the SSR output has tabs
+          const showTabs = !!workspace && (this.hasAttribute("tabs") || !!renderOptions.tabs);
+          if (showTabs) {
+            setStyle(containerEl, { height: `calc(100% - ${TAB_BAR_HEIGHT}px)` });
+          }
+
+          if (!filename && workspace && group) {
+            if (group.history.state.current) {
+              filename = group.history.state.current;
             } else if (workspace.entryFile) {
               filename = workspace.entryFile;
-              workspace.history.replace(filename);
+              group.history.replace(filename);
             } else {
               const rootFiles = (await workspace.fs.readDirectory("/")).filter(([name, type]) => type === 1).map(([name]) => name);
               filename = rootFiles.includes("index.html") ? "index.html" : rootFiles[0];
               if (filename) {
-                workspace.history.replace(filename);
+                group.history.replace(filename);
               }
             }
           }
 
+          if (showTabs && group) {
+            // restore the open files from the SSR output if the group has no open files
+            if (group.tabs.state.files.length === 0) {
+              renderOptions.tabs?.forEach((file) => group.tabs.open(file));
+            }
+            if (filename) {
+              group.tabs.open(filename);
+            }
+            renderOptions.tabs = [...group.tabs.state.files];
+          }
+
           const langs = (options?.langs ?? []).concat(syntaxes as any[]);
           if (renderOptions.language || filename) {
             const lang = renderOptions.language ?? getLanguageIdFromPath(filename!) ?? "plaintext";
@@ -233,7 +275,12 @@ export function lazy(options?: InitOptions) {
               const language = getLanguageIdFromPath(filename);
               prerenderEl = containerEl.cloneNode(true) as HTMLElement;
               prerenderEl.className = "monaco-editor-prerender";
-              prerenderEl.innerHTML = render(highlighter, decode(code), { ...renderOptions, language });
+              prerenderEl.style.height = "100%";
+              prerenderEl.innerHTML = render(
+                highlighter,
+                { filename: filenameToURL(filename).href, code: decode(code) },
+                { ...renderOptions, language },
+              );
             } catch (error) {
               if (error instanceof NotFoundError) {
                 // ignore
@@ -246,8 +293,8 @@ export function lazy(options?: InitOptions) {
           if (prerenderEl) {
             setStyle(prerenderEl, { position: "absolute", top: "0", left: "0" });
             this.appendChild(prerenderEl);
-            if (filename && workspace) {
-              const viewState = await workspace.viewState.get(filename);
+            if (filename && group) {
+              const viewState = await group.viewState.get(filename);
               const scrollTop = viewState?.viewState.scrollTop ?? 0;
               if (scrollTop) {
                 const mockEl = prerenderEl.querySelector(".mock-monaco-editor");
@@ -262,24 +309,82 @@ export function lazy(options?: InitOptions) {
           {
             const monaco = await (monacoPromise ?? (monacoPromise = loadMonaco(highlighter, workspace, options?.lsp)));
             const editor = monaco.editor.create(containerEl, renderOptions);
-            if (workspace) {
+            if (workspace && group) {
+              workspace._bindEditor(editor, group.id);
               const storeViewState = () => {
                 const currentModel = editor.getModel();
                 if (currentModel?.uri.scheme === "file") {
                   const state = editor.saveViewState();
                   if (state) {
                     state.viewState.scrollTop ??= editor.getScrollTop();
-                    workspace.viewState.save(currentModel.uri.toString(), Object.freeze(state));
+                    group.viewState.save(currentModel.uri.toString(), Object.freeze(state));
                   }
                 }
               };
               editor.onDidChangeCursorSelection(debunce(storeViewState, 500));
               editor.onDidScrollChange(debunce(storeViewState, 500));
-              workspace.history.onChange((state) => {
+              group.history.onChange((state) => {
                 if (editor.getModel()?.uri.toString() !== state.current) {
                   workspace._openTextDocument(monaco, editor, state.current);
                 }
               });
+              const saveModel = (action: "save" | "revert") => {
+                const uri = editor.getModel()?.uri;
+                if (uri?.scheme === "file") {
+                  return workspace[action](uri.toString());
+                }
+              };
+              editor.addAction({
+                id: "workspace.files.save",
+                label: "File: Save",
+                keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS],
+                run: () => saveModel("save"),
+              });
+              editor.addAction({
+                id: "workspace.files.saveAll",
+                label: "File: Save All",
+                keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyMod.Alt | monaco.KeyCode.KeyS],
+                run: () => workspace.saveAll(),
+              });
+              editor.addAction({
+                id: "workspace.files.revert",
+                label: "File: Revert File",
+                run: () => saveModel("revert"),
+              });
+              editor.addAction({
+                id: "workspace.localHistory.compare",
+                label: "Local History: Compare with Snapshot...",
+                run: () => compareWithSnapshot(monaco, workspace, editor, this),
+              });
+              editor.addAction({
+                id: "workspace.quickOpen",
+                label: "Go to File...",
+                run: () => quickOpen(monaco, workspace, editor),
+              });
+              editor.addAction({
+                id: "workspace.showAllSymbols",
+                label: "Go to Symbol in Workspace...",
+                run: () => goToWorkspaceSymbol(monaco, workspace, editor),
+              });
+              editor.addAction({
+                id: "workspace.search.findInFiles",
+                label: "Search: Find in Files...",
+                keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyMod.Shift | monaco.KeyCode.KeyF],
+                run: () => findInFiles(monaco, workspace, editor),
+              });
+              editor.addAction({
+                id: "workspace.search.replaceInFiles",
+                label: "Search: Replace in Files...",
+                keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyMod.Shift | monaco.KeyCode.KeyH],
+                run: () => replaceInFiles(monaco, workspace, editor),
+              });
+              mountConflictNotification(this, monaco, workspace, editor);
+              if (showTabs) {
+                const tabBarEl = document.createElement("div");
+                tabBarEl.className = "monaco-editor-tab-bar";
+                this.insertBefore(tabBarEl, containerEl);
+                mountTabBar(tabBarEl, monaco, workspace, group, editor, highlighter, renderOptions.theme);
+              }
             }
             if (filename && workspace) {
               try {
@@ -299,7 +404,7 @@ export function lazy(options?: InitOptions) {
                     workspace._openTextDocument(monaco, editor, filename);
                   } else {
                     // open an empty model
-                    editor.setModel(monaco.editor.createModel(""));
+                    editor.setModel(null);
                   }
                 } else {
                   throw error;
@@ -318,7 +423,7 @@ export function lazy(options?: InitOptions) {
               editor.setModel(model);
             } else {
               // open an empty model
-              editor.setModel(monaco.editor.createModel(""));
+              editor.setModel(null);
             }
             // hide the prerender element if exists
             if (prerenderEl) {
@@ -345,6 +450,543 @@ export function hydrate(options?: InitOptions) {
   return lazy(options);
 }
 
+/** Render the tab bar of the workspace open files, and handle the tab events. */
+function mountTabBar(
+  el: HTMLElement,
+  monaco: typeof monacoNS,
+  workspace: Workspace,
+  group: WorkspaceEditorGroup,
+  editor: monacoNS.editor.IStandaloneCodeEditor,
+  highlighter: Highlighter,
+  theme?: string,
+) {
+  const dragType = "application/x-monaco-editor-tab";
+  const update = () => {
+    const { files, dirty } = group.tabs.state;
+    el.innerHTML = renderTabBar(highlighter, { files, dirty, current: editor.getModel()?.uri.toString(), theme });
+    el.querySelector(".monaco-editor-tab.active")?.scrollIntoView?.({ block: "nearest", inline: "nearest" });
+  };
+  const open = (file: string) => {
+    workspace._openTextDocument(monaco, editor, file).catch((error) => {
+      if (error instanceof NotFoundError) {
+        // the file has been deleted
+        close(file);
+      } else {
+        throw error;
+      }
+    });
+  };
+  const close = async (file: string) => {
+    const openInOtherGroups = workspace.editorGroups.some((g) => g !== group && g.tabs.state.files.includes(file));
+    if (group.tabs.state.dirty.includes(file) && !openInOtherGroups) {
+      if (workspace.autoSave === "off") {
+        // the quick pick is never resolved if the user cancels it, the tab is kept open then
+        const name = decodeURIComponent(file.slice(file.lastIndexOf("/") + 1));
+        const picked = await monaco.showQuickPick(["Save", "Don't Save"], {
+          title: `Do you want to save the changes you made to ${name}?`,
+          placeHolder: "Your changes will be lost if you don't save them.",
+        });
+        if (picked === "Save") {
+          await workspace.save(file);
+        } else if (picked === "Don't Save") {
+          await workspace.revert(file);
+        } else {
+          return;
+        }
+      } else {
+        await workspace.save(file);
+      }
+    }
+    const { files } = group.tabs.state;
+    if (!files.includes(file)) {
+      return;
+    }
+    const index = files.indexOf(file);
+    group.tabs.close(file);
+    if (editor.getModel()?.uri.toString() === file) {
+      const next = files[index + 1] ?? files[index - 1];
+      if (next) {
+        open(next);
+      } else {
+        editor.setModel(null);
+      }
+    }
+  };
+  const getTab = (e: Event) => (e.target as HTMLElement).closest<HTMLElement>(".monaco-editor-tab");
+  el.addEventListener("click", (e) => {
+    const file = getTab(e)?.dataset.file;
+    if (file) {
+      if ((e.target as HTMLElement).closest(".monaco-editor-tab-close")) {
+        close(file);
+      } else if (editor.getModel()?.uri.toString() !== file) {
+        open(file);
+      }
+    }
+  });
+  el.addEventListener("auxclick", (e) => {
+    const file = getTab(e)?.dataset.file;
+    // close the tab by the middle button
+    if (file && e.button === 1) {
+      close(file);
+    }
+  });
+  el.addEventListener("dragstart", (e) => {
+    const file = getTab(e)?.dataset.file;
+    if (file && e.dataTransfer) {
+      e.dataTransfer.setData(dragType, file);
+      e.dataTransfer.effectAllowed = "move";
+    }
+  });
+  el.addEventListener("dragover", (e) => {
+    if (e.dataTransfer?.types.includes(dragType)) {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "move";
+    }
+  });
+  el.addEventListener("drop", (e) => {
+    const file = e.dataTransfer?.getData(dragType);
+    if (file) {
+      e.preventDefault();
+      const { files } = group.tabs.state;
+      const target = getTab(e)?.dataset.file;
+      group.tabs.move(file, target ? files.indexOf(target) : files.length - 1);
+    }
+  });
+  group.tabs.onChange(update);
+  editor.onDidChangeModel(update);
+  update();
+}
+
+/** Get the selected text of the editor as the initial search query. */
+function getSearchQuery(editor: monacoNS.editor.IStandaloneCodeEditor): string {
+  const model = editor.getModel();
+  const selection = editor.getSelection();
+  if (model && selection && !selection.isEmpty() && selection.startLineNumber === selection.endLineNumber) {
+    return model.getValueInRange(selection);
+  }
+  return "";
+}
+
+/** Search the text in the workspace files, then open the picked match. */
+async function findInFiles(monaco: typeof monacoNS, workspace: Workspace, editor: monacoNS.editor.IStandaloneCodeEditor) {
+  const query = await monaco.showInputBox({ title: "Find in Files", placeHolder: "Search", value: getSearchQuery(editor) });
+  if (!query) {
+    return;
+  }
+  const matches: WorkspaceSearchMatch[] = [];
+  for await (const match of workspace.search(query, { maxResults: 1000 })) {
+    matches.push(match);
+  }
+  const picked = await monaco.showQuickPick(
+    matches.map((match) => ({
+      label: match.lineText.trim(),
+      description: new URL(match.url).pathname.slice(1) + ":" + match.range.startLineNumber,
+      match,
+    })),
+    {
+      title: "Find in Files: " + query,
+      placeHolder: matches.length > 0 ? "Select a match to open" : "No results found",
+      matchOnDescription: true,
+    },
+  );
+  if (picked) {
+    await workspace._openTextDocument(monaco, editor, picked.match.url, picked.match.range);
+    editor.focus();
+  }
+}
+
+/** Replace all matches of the text in the workspace files. */
+async function replaceInFiles(monaco: typeof monacoNS, workspace: Workspace, editor: monacoNS.editor.IStandaloneCodeEditor) {
+  const title = "Replace in Files";
+  const query = await monaco.showInputBox({ title, placeHolder: "Search", value: getSearchQuery(editor) });
+  if (!query) {
+    return;
+  }
+  const replacement = await monaco.showInputBox({ title, placeHolder: "Replace", prompt: `Replace '${query}' with` });
+  if (replacement === undefined) {
+    return;
+  }
+  const matches: WorkspaceSearchMatch[] = [];
+  for await (const match of workspace.search(query)) {
+    matches.push(match);
+  }
+  if (matches.length === 0) {
+    await monaco.showQuickPick([], { title, placeHolder: "No results found" });
+    return;
+  }
+  const files = new Set(matches.map((match) => match.url)).size;
+  const confirm = await monaco.showQuickPick(["Replace", "Cancel"], {
+    title,
+    placeHolder: `Replace ${matches.length} occurrence(s) across ${files} file(s) with '${replacement}'?`,
+  });
+  if (confirm === "Replace") {
+    await workspace.replaceAll(query, replacement);
+  }
+}
+
+/** Convert the matched offsets between `start` and `end` to the highlight ranges of a quick pick item. */
+function toHighlightRanges(offsets: number[], start: number, end: number) {
+  const ranges: { start: number; end: number }[] = [];
+  for (const offset of offsets) {
+    if (offset >= start && offset < end) {
+      const last = ranges[ranges.length - 1];
+      if (last?.end === offset - start) {
+        last.end++;
+      } else {
+        ranges.push({ start: offset - start, end: offset - start + 1 });
+      }
+    }
+  }
+  return ranges;
+}
+
+/** Pick a file of the workspace by fuzzy matching the path, the recently opened files are ranked first. */
+async function quickOpen(monaco: typeof monacoNS, workspace: Workspace, editor: monacoNS.editor.ICodeEditor) {
+  type FileItem = monacoNS.QuickPickItem & { url: string };
+  const group = workspace.editorGroups.find((g) => g.editor === editor) ?? workspace.getEditorGroup();
+  const recent = group.history.recent;
+  const originalModel = editor.getModel();
+  const originalViewState = editor.saveViewState();
+  const originalReadOnly = editor.getOption(monaco.editor.EditorOption.readOnly);
+  // the models created for previewing, they are disposed when the quick pick is closed
+  const previewModels = new Set<monacoNS.editor.ITextModel>();
+  const pick = monaco.createQuickPick<FileItem>();
+  let files: string[] = [];
+  let previewId = 0;
+  let previewing = Promise.resolve();
+  let accepted: FileItem | undefined;
+
+  const update = () => {
+    const matches: { item: FileItem; score: number; recentIndex: number }[] = [];
+    for (const file of files) {
+      const path = file.slice(1);
+      const match = fuzzyMatchPath(pick.value, path);
+      if (match) {
+        const url = filenameToURL(file).href;
+        const nameStart = path.lastIndexOf("/") + 1;
+        const item: FileItem = {
+          label: path.slice(nameStart),
+          description: path.slice(0, Math.max(nameStart - 1, 0)) || undefined,
+          highlights: {
+            label: toHighlightRanges(match.offsets, nameStart, path.length),
+            description: toHighlightRanges(match.offsets, 0, nameStart - 1),
+          },
+          url,
+        };
+        matches.push({ item, score: match.score, recentIndex: recent.indexOf(url) });
+      }
+    }
+    matches.sort((a, b) => {
+      if (a.recentIndex !== -1 || b.recentIndex !== -1) {
+        return a.recentIndex === -1 ? 1 : b.recentIndex === -1 ? -1 : a.recentIndex - b.recentIndex;
+      }
+      return b.score - a.score || a.item.url.localeCompare(b.item.url);
+    });
+    pick.items = matches.map((m) => m.item);
+  };
+  const preview = (url: string) => {
+    const id = ++previewId;
+    previewing = previewing.then(async () => {
+      if (id !== previewId || accepted) {
+        return;
+      }
+      const isOpen = !!monaco.editor.getModel(monaco.Uri.parse(url));
+      const model = await workspace._openTextDocument(monaco, editor, url, undefined, undefined, true);
+      if (!isOpen) {
+        previewModels.add(model);
+      }
+    }).catch(() => {});
+  };
+
+  // the built-in filter of the quick pick doesn't match paths, the items are filtered and sorted by the fuzzy matcher
+  pick.matchOnLabel = false;
+  pick.sortByLabel = false;
+  pick.placeholder = "Search files by name";
+  pick.busy = true;
+  pick.onDidChangeValue(update);
+  pick.onDidChangeActive(([item]) => item && preview(item.url));
+  pick.onDidAccept(() => {
+    accepted = pick.selectedItems[0] ?? pick.activeItems[0];
+    if (accepted) {
+      pick.hide();
+    }
+  });
+  pick.onDidHide(async () => {
+    pick.dispose();
+    previewId++;
+    await previewing;
+    if (accepted) {
+      await workspace._openTextDocument(monaco, editor, accepted.url);
+      editor.focus();
+    } else if (originalModel && !originalModel.isDisposed() && editor.getModel() !== originalModel) {
+      editor.setModel(originalModel);
+      editor.updateOptions({ readOnly: originalReadOnly });
+      if (originalViewState) {
+        editor.restoreViewState(originalViewState);
+      }
+    }
+    for (const model of previewModels) {
+      if (model !== editor.getModel()) {
+        model.dispose();
+      }
+    }
+  });
+  pick.show();
+  files = await workspace._listFiles();
+  pick.busy = false;
+  update();
+}
+
+/** Search the symbols of the workspace with the registered providers, then open the picked symbol. */
+function goToWorkspaceSymbol(monaco: typeof monacoNS, workspace: Workspace, editor: monacoNS.editor.ICodeEditor) {
+  type SymbolItem = monacoNS.QuickPickItem & { symbol: monacoNS.SymbolInformation };
+  const pick = monaco.createQuickPick<SymbolItem>();
+  let tokenSource: monacoNS.CancellationTokenSource | undefined;
+
+  const update = debunce(async () => {
+    tokenSource?.cancel();
+    const query = pick.value.trim();
+    if (!query) {
+      pick.items = [];
+      pick.busy = false;
+      return;
+    }
+    const { token } = tokenSource = new monaco.CancellationTokenSource();
+    pick.busy = true;
+    const symbols = await monaco.provideWorkspaceSymbols(query, token);
+    if (token.isCancellationRequested) {
+      return;
+    }
+    const matches: { item: SymbolItem; score: number }[] = [];
+    for (const symbol of symbols) {
+      const match = fuzzyMatchPath(query, symbol.name);
+      if (match) {
+        const path = symbol.location.uri.path.slice(1);
+        const item: SymbolItem = {
+          label: symbol.name,
+          description: symbol.containerName ? symbol.containerName + " · " + path : path,
+          highlights: { label: toHighlightRanges(match.offsets, 0, symbol.name.length) },
+          symbol,
+        };
+        matches.push({ item, score: match.score });
+      }
+    }
+    matches.sort((a, b) => b.score - a.score || a.item.label.localeCompare(b.item.label));
+    pick.items = matches.map((m) => m.item);
+    pick.busy = false;
+  }, 100);
+
+  // the symbols are filtered by the providers and sorted by the fuzzy matcher
+  pick.matchOnLabel = false;
+  pick.sortByLabel = false;
+  pick.placeholder = "Search symbols by name";
+  pick.onDidChangeValue(update);
+  pick.onDidAccept(async () => {
+    const item = pick.selectedItems[0] ?? pick.activeItems[0];
+    if (item) {
+      pick.hide();
+      const { uri, range } = item.symbol.location;
+      await workspace._openTextDocument(monaco, editor, uri.toString(), range);
+      editor.focus();
+    }
+  });
+  pick.onDidHide(() => {
+    tokenSource?.cancel();
+    pick.dispose();
+  });
+  pick.show();
+}
+
+/** Pick a local history snapshot of the current model, then compare it with the model in a diff editor. */
+async function compareWithSnapshot(
+  monaco: typeof monacoNS,
+  workspace: Workspace,
+  editor: monacoNS.editor.IStandaloneCodeEditor,
+  container: HTMLElement,
+) {
+  const model = editor.getModel();
+  if (!model || model.uri.scheme !== "file") {
+    return;
+  }
+  const snapshots = await workspace.history.listSnapshots(model.uri.toString());
+  const picked = await monaco.showQuickPick(
+    snapshots.map((snapshot) => ({
+      label: new Date(snapshot.time).toLocaleString(),
+      description: snapshot.content.length + " characters",
+      snapshot,
+    })),
+    { placeHolder: snapshots.length > 0 ? "Select a snapshot to compare with" : "No snapshots found for this file" },
+  );
+  if (!picked) {
+    return;
+  }
+
+  const { snapshot } = picked;
+  const original = monaco.editor.createModel(snapshot.content, model.getLanguageId());
+  const title = model.uri.path.split("/").pop() + " (" + new Date(snapshot.time).toLocaleString() + ") ↔ Current";
+  const close = showDiffOverlay(monaco, editor, container, original, model, title, [
+    ["Restore", async () => {
+      await workspace.history.restoreSnapshot(snapshot.id);
+      close();
+    }],
+  ]);
+}
+
+/** Compare the unsaved changes of the conflicted document with the file content in a diff editor. */
+async function compareWithDisk(
+  monaco: typeof monacoNS,
+  workspace: Workspace,
+  editor: monacoNS.editor.IStandaloneCodeEditor,
+  container: HTMLElement,
+) {
+  const model = editor.getModel();
+  if (!model || model.uri.scheme !== "file") {
+    return;
+  }
+  const url = model.uri.toString();
+  const name = model.uri.path.split("/").pop();
+  const original = monaco.editor.createModel(await workspace.fs.readTextFile(url), model.getLanguageId());
+  const resolve = async (resolution: "mine" | "theirs") => {
+    await workspace.resolveConflict(url, resolution);
+    close();
+  };
+  const close = showDiffOverlay(monaco, editor, container, original, model, name + " (on disk) ↔ " + name + " (yours)", [
+    ["Keep Mine", () => resolve("mine")],
+    ["Take Theirs", () => resolve("theirs")],
+  ]);
+}
+
+/**
+ * Show a diff editor over the editor with the action buttons, returns the function to close it.
+ * The original model is disposed when the diff editor is closed.
+ */
+function showDiffOverlay(
+  monaco: typeof monacoNS,
+  editor: monacoNS.editor.IStandaloneCodeEditor,
+  container: HTMLElement,
+  original: monacoNS.editor.ITextModel,
+  modified: monacoNS.editor.ITextModel,
+  title: string,
+  actions: [label: string, run: () => void][],
+): () => void {
+  const overlayEl = document.createElement("div");
+  const headerEl = document.createElement("div");
+  const titleEl = document.createElement("span");
+  const closeButton = document.createElement("button");
+  const diffEl = document.createElement("div");
+  const { backgroundColor, color } = getComputedStyle(editor.getDomNode() ?? container);
+  setStyle(overlayEl, {
+    position: "absolute",
+    inset: "0",
+    zIndex: "10",
+    display: "flex",
+    flexDirection: "column",
+    backgroundColor,
+    color,
+  });
+  setStyle(headerEl, { display: "flex", alignItems: "center", gap: "8px", padding: "4px 8px", font: "12px sans-serif" });
+  setStyle(titleEl, { flex: "1", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" });
+  setStyle(diffEl, { flex: "1", minHeight: "0" });
+  titleEl.textContent = title;
+  headerEl.appendChild(titleEl);
+  for (const [label, run] of actions) {
+    const button = document.createElement("button");
+    button.textContent = label;
+    button.onclick = run;
+    headerEl.appendChild(button);
+  }
+  closeButton.textContent = "Close";
+  headerEl.appendChild(closeButton);
+  overlayEl.append(headerEl, diffEl);
+  container.appendChild(overlayEl);
+
+  const diffEditor = monaco.editor.createDiffEditor(diffEl, { automaticLayout: true, originalEditable: false });
+  diffEditor.setModel({ original, modified });
+  const close = () => {
+    if (overlayEl.isConnected) {
+      diffEditor.dispose();
+      original.dispose();
+      overlayEl.remove();
+      editor.focus();
+    }
+  };
+  closeButton.onclick = close;
+  diffEditor.getOriginalEditor().addCommand(monaco.KeyCode.Escape, close);
+  diffEditor.getModifiedEditor().addCommand(monaco.KeyCode.Escape, close);
+  diffEditor.getModifiedEditor().focus();
+  return close;
+}
+
+/** Show a notification when the document of the editor is changed outside the editor while it has unsaved changes. */
+function mountConflictNotification(
+  container: HTMLElement,
+  monaco: typeof monacoNS,
+  workspace: Workspace,
+  editor: monacoNS.editor.IStandaloneCodeEditor,
+) {
+  const el = document.createElement("div");
+  const messageEl = document.createElement("div");
+  const buttonsEl = document.createElement("div");
+  const getUrl = () => {
+    const uri = editor.getModel()?.uri;
+    return uri?.scheme === "file" ? uri.toString() : undefined;
+  };
+  const actions: [label: string, run: (url: string) => void][] = [
+    ["Compare", () => compareWithDisk(monaco, workspace, editor, container)],
+    ["Keep Mine", (url) => workspace.resolveConflict(url, "mine")],
+    ["Take Theirs", (url) => workspace.resolveConflict(url, "theirs")],
+  ];
+  for (const [label, run] of actions) {
+    const button = document.createElement("button");
+    button.textContent = label;
+    button.onclick = () => {
+      const url = getUrl();
+      if (url) {
+        run(url);
+      }
+    };
+    buttonsEl.appendChild(button);
+  }
+  el.className = "monaco-editor-conflict-notification";
+  el.role = "alert";
+  el.append(messageEl, buttonsEl);
+  setStyle(buttonsEl, { display: "flex", justifyContent: "flex-end", gap: "8px" });
+  const update = () => {
+    const url = getUrl();
+    if (url && workspace.hasConflict(url)) {
+      const { backgroundColor, color } = getComputedStyle(editor.getDomNode() ?? container);
+      setStyle(el, {
+        position: "absolute",
+        right: "16px",
+        bottom: "16px",
+        zIndex: "5",
+        display: "flex",
+        flexDirection: "column",
+        gap: "8px",
+        maxWidth: "420px",
+        padding: "10px 12px",
+        font: "12px sans-serif",
+        boxShadow: "0 2px 8px rgba(0,0,0,0.36)",
+        backgroundColor,
+        color,
+      });
+      messageEl.textContent = `⚠ The file '${decodeURIComponent(url.slice(url.lastIndexOf("/") + 1))}' has been changed on disk. `
+        + "Compare your unsaved changes with the file, keep your changes, or take the file content.";
+      container.appendChild(el);
+    } else {
+      el.remove();
+    }
+  };
+  const unlisten = workspace.onDidChangeConflict(update);
+  const disposable = editor.onDidChangeModel(update);
+  editor.onDidDispose(() => {
+    unlisten();
+    disposable.dispose();
+    el.remove();
+  });
+  update();
+}
+
 /** Load monaco editor core. */
 async function loadMonaco(
   highlighter: Highlighter,
@@ -413,10 +1055,16 @@ async function loadMonaco(
 
   // register the editor opener for the monaco editor
   monaco.editor.registerEditorOpener({
-    openCodeEditor: async (editor, resource, selectionOrPosition) => {
+    // `sideBySide` is passed by the overridden `registerEditorOpener` of the editor core
+    openCodeEditor: async (editor, resource, selectionOrPosition, sideBySide?: boolean) => {
       if (workspace && resource.scheme === "file") {
         try {
-          await workspace._openTextDocument(monaco, editor, resource.toString(), selectionOrPosition);
+          // open the document in the editor of another group when opening to the side
+          const targetEditor = (sideBySide && workspace._getSideEditor(editor)) || editor;
+          await workspace._openTextDocument(monaco, targetEditor, resource.toString(), selectionOrPosition);
+          if (targetEditor !== editor) {
+            targetEditor.focus();
+          }
           return true;
         } catch (err) {
           if (err instanceof NotFoundError) {
@@ -460,6 +1108,42 @@ async function loadMonaco(
     });
   }
 
+  // add the actions to peek the call hierarchy and the type hierarchy, same as VS Code
+  monaco.editor.addEditorAction({
+    id: "editor.showCallHierarchy",
+    label: "Peek Call Hierarchy",
+    precondition: "editorHasCallHierarchyProvider",
+    keybindings: [monaco.KeyMod.Shift | monaco.KeyMod.Alt | monaco.KeyCode.KeyH],
+    contextMenuGroupId: "navigation",
+    contextMenuOrder: 1.5,
+    run: (editor) => showCallHierarchy(monaco, editor),
+  });
+  monaco.editor.addEditorAction({
+    id: "editor.showTypeHierarchy",
+    label: "Peek Type Hierarchy",
+    precondition: "editorHasTypeHierarchyProvider",
+    contextMenuGroupId: "navigation",
+    contextMenuOrder: 1.6,
+    run: (editor) => showTypeHierarchy(monaco, editor),
+  });
+
+  // add keybindings `cmd+p`/`ctrl+p` for the "Go to File" quick pick and `cmd+t`/`ctrl+t` for the "Go to Symbol in Workspace" quick pick
+  if (workspace) {
+    const quickPicks = [
+      ["workspace.action.quickOpen", monaco.KeyCode.KeyP, quickOpen],
+      ["workspace.action.showAllSymbols", monaco.KeyCode.KeyT, goToWorkspaceSymbol],
+    ] as const;
+    for (const [command, keyCode, show] of quickPicks) {
+      monaco.editor.registerCommand(command, () => {
+        const editor = monaco.editor.getEditors().find((e) => e.hasWidgetFocus());
+        if (editor) {
+          show(monaco, workspace, editor);
+        }
+      });
+      monaco.editor.addKeybindingRule({ keybinding: monaco.KeyMod.CtrlCmd | keyCode, command });
+    }
+  }
+
   // use the shiki as the tokenizer for the monaco editor
   const allLanguages = new Set(grammars.filter(g => !g.injectTo).map(g => g.name));
   allLanguages.forEach((id) => {
@@ -520,4 +1204,13 @@ export function registerLSPProvider(lang: string, provider: LSPProvider) {
 // set the shiki wasm default loader
 setDefaultWasmLoader(getWasmInstance);
 
-export { errors, Workspace };
+export {
+  BroadcastChannelTransport,
+  errors,
+  IndexedDBFileSystem,
+  LocalFileSystem,
+  MemoryFileSystem,
+  OPFSFileSystem,
+  OverlayFileSystem,
+  Workspace,
+};
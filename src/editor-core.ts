@@ -1,6 +1,25 @@
-import type { InputBoxOptions, QuickPickItem, QuickPickOptions } from "monaco-editor-core";
-import { editor, languages, Uri } from "monaco-editor-core";
+import type {
+  CallHierarchyIncomingCall,
+  CallHierarchyItem,
+  CallHierarchyOutgoingCall,
+  CallHierarchyProvider,
+  CancellationToken,
+  IDisposable,
+  InputBoxOptions,
+  IPosition,
+  IRange,
+  QuickPick,
+  QuickPickItem,
+  QuickPickOptions,
+  SymbolInformation,
+  TypeHierarchyItem,
+  TypeHierarchyProvider,
+  WorkspaceSymbolProvider,
+} from "monaco-editor-core";
+import { CancellationTokenSource, editor, Emitter, languages, Position, Uri } from "monaco-editor-core";
 import { IQuickInputService } from "monaco-editor-core/esm/vs/platform/quickinput/common/quickInput";
+import { IStandaloneThemeService } from "monaco-editor-core/esm/vs/editor/standalone/common/standaloneTheme";
+import { ICodeEditorService } from "monaco-editor-core/esm/vs/editor/browser/services/codeEditorService";
 import { StandaloneServices } from "monaco-editor-core/esm/vs/editor/standalone/browser/standaloneServices";
 import languageConfigurations from "../language-configurations.json" with { type: "json" };
 
@@ -9,9 +28,44 @@ const defaultEditorOptions: editor.IStandaloneEditorConstructionOptions = {
   minimap: { enabled: false },
   stickyScroll: { enabled: false },
   scrollBeyondLastLine: false,
+  // rename the closing tag with the opening tag in HTML and JSX
+  linkedEditing: true,
 };
 
-const { create, createModel, getModel } = editor;
+const { create, createModel, defineTheme, getModel } = editor;
+
+/** the theme data with the semantic highlighting settings of VS Code themes. */
+interface SemanticThemeData extends editor.IStandaloneThemeData {
+  semanticHighlighting?: boolean;
+  semanticTokenColors?: Record<string, { foreground?: string; fontStyle?: string }>;
+}
+
+// the textmate scopes of the semantic tokens that are not colored by the theme, same as VS Code
+const semanticTokenScopes: Record<string, string[]> = {
+  "namespace": ["entity.name.namespace"],
+  "type": ["entity.name.type", "support.type"],
+  "class": ["entity.name.type.class", "support.class"],
+  "interface": ["entity.name.type.interface"],
+  "enum": ["entity.name.type.enum"],
+  "typeParameter": ["entity.name.type.parameter"],
+  "function": ["entity.name.function", "support.function"],
+  "method": ["entity.name.function.member", "support.function"],
+  "variable": ["variable.other.readwrite", "entity.name.variable"],
+  "parameter": ["variable.parameter"],
+  "property": ["variable.other.property"],
+  "enumMember": ["variable.other.enummember"],
+  "variable.readonly": ["variable.other.constant"],
+  "property.readonly": ["variable.other.constant.property"],
+  "type.defaultLibrary": ["support.type"],
+  "class.defaultLibrary": ["support.class"],
+  "interface.defaultLibrary": ["support.class"],
+  "function.defaultLibrary": ["support.function"],
+  "method.defaultLibrary": ["support.function"],
+  "variable.defaultLibrary": ["support.variable"],
+  "variable.readonly.defaultLibrary": ["support.constant"],
+  "property.defaultLibrary": ["support.variable.property"],
+  "property.readonly.defaultLibrary": ["support.constant.property"],
+};
 
 // override monoaco editor APIs.
 Object.assign(editor, {
@@ -19,13 +73,15 @@ Object.assign(editor, {
     container: HTMLElement,
     options?: editor.IStandaloneEditorConstructionOptions,
   ): editor.IStandaloneCodeEditor => {
-    return create(
+    const codeEditor = create(
       container,
       {
         ...defaultEditorOptions,
         ...options,
       } satisfies typeof options,
     );
+    bindHierarchyContextKeys(codeEditor);
+    return codeEditor;
   },
   createModel: (
     value: string,
@@ -48,8 +104,121 @@ Object.assign(editor, {
   getModel: (uri: string | URL | Uri) => {
     return getModel(normalizeUri(uri)!);
   },
+  // same as the original `registerEditorOpener`, but passes the `sideBySide` flag to the opener
+  registerEditorOpener: (opener: editor.ICodeEditorOpener): IDisposable => {
+    const codeEditorService = StandaloneServices.get(ICodeEditorService);
+    return codeEditorService.registerCodeEditorOpenHandler(async (input: any, source: editor.ICodeEditor | null, sideBySide?: boolean) => {
+      if (!source) {
+        return null;
+      }
+      const selection = input.options?.selection;
+      let selectionOrPosition: IRange | IPosition | undefined;
+      if (selection && typeof selection.endLineNumber === "number" && typeof selection.endColumn === "number") {
+        selectionOrPosition = selection;
+      } else if (selection) {
+        selectionOrPosition = { lineNumber: selection.startLineNumber, column: selection.startColumn };
+      }
+      if (await (opener.openCodeEditor as OpenCodeEditor)(source, input.resource, selectionOrPosition, sideBySide)) {
+        // the opener may open the resource in another editor, which is focused after opening
+        const focused: editor.ICodeEditor | null = codeEditorService.getFocusedCodeEditor();
+        return focused?.getModel()?.uri.toString() === input.resource.toString() ? focused : source;
+      }
+      return null;
+    });
+  },
+  // same as the original `defineTheme`, but supports the `semanticHighlighting` and `semanticTokenColors` of VS Code themes
+  defineTheme: (themeName: string, themeData: SemanticThemeData) => {
+    const semanticRules = Object.values(themeData.semanticTokenColors ?? {}).map((style, i) => ({ token: "semantic-" + i, ...style }));
+    patchStandaloneTheme();
+    defineTheme(themeName, { ...themeData, rules: themeData.rules.concat(semanticRules) });
+  },
 });
 
+let standaloneThemePatched = false;
+
+/**
+ * patch the standalone theme to resolve the styles of the semantic tokens like VS Code.
+ * targets the `StandaloneTheme` class of monaco-editor-core 0.55, which sets `semanticHighlighting` to `false`
+ * in the constructor and matches the semantic tokens with the textmate rules in `getTokenStyleMetadata`.
+ */
+function patchStandaloneTheme() {
+  if (standaloneThemePatched) {
+    return;
+  }
+  standaloneThemePatched = true;
+  const proto = Object.getPrototypeOf(StandaloneServices.get(IStandaloneThemeService).getColorTheme());
+  const getTokenStyleMetadata = proto.getTokenStyleMetadata;
+  // the `semanticHighlighting` flag of the theme data overrides the value set by the constructor
+  Object.defineProperty(proto, "semanticHighlighting", {
+    get() {
+      return this.themeData.semanticHighlighting ?? this._semanticHighlighting;
+    },
+    set(value: boolean) {
+      this._semanticHighlighting = value;
+    },
+  });
+  proto.getTokenStyleMetadata = function(type: string, modifiers: string[], language: string) {
+    const { rules, semanticTokenColors = {} }: SemanticThemeData = this.themeData;
+    const selectors = Object.keys(semanticTokenColors);
+    const resolve = (token: string) => getTokenStyleMetadata.call(this, token, [], language);
+    // the color and the font style are resolved by the best selectors that define them, same as VS Code
+    const find = (filter: (style: { foreground?: string; fontStyle?: string }) => boolean) =>
+      findSemanticSelector(selectors.filter((selector) => filter(semanticTokenColors[selector])), type, modifiers, language);
+    const colorSelector = find((style) => !!style.foreground);
+    const fontSelector = find((style) => style.fontStyle !== undefined);
+    let style: { foreground: number; italic?: boolean; bold?: boolean; underline?: boolean; strikethrough?: boolean } | undefined;
+    if (colorSelector !== undefined) {
+      style = { foreground: resolve("semantic-" + selectors.indexOf(colorSelector)).foreground };
+    } else {
+      // fall back to the textmate scopes of the token, the token keeps the textmate style if the theme doesn't color the scopes
+      const scopes = semanticTokenScopes[findSemanticSelector(Object.keys(semanticTokenScopes), type, modifiers, language) ?? ""] ?? [];
+      for (const scope of scopes) {
+        const rule = rules.findLast(({ token }) => token === scope || scope.startsWith(token + "."));
+        if (rule) {
+          const { foreground, ...fontStyle } = resolve(scope);
+          style = rule.fontStyle === undefined ? { foreground } : { foreground, ...fontStyle };
+          break;
+        }
+      }
+    }
+    if (fontSelector !== undefined) {
+      const { foreground: _, ...fontStyle } = resolve("semantic-" + selectors.indexOf(fontSelector));
+      style = { foreground: style?.foreground ?? 0, ...fontStyle };
+    }
+    return style;
+  };
+}
+
+/** find the best selector `(*|type)(.modifier)*(:language)?` of the semantic token, the scores are same as VS Code. */
+function findSemanticSelector(selectors: string[], type: string, modifiers: string[], language: string): string | undefined {
+  let best: string | undefined;
+  let bestScore = -1;
+  for (const selector of selectors) {
+    const [typeAndModifiers, selectorLanguage] = selector.split(":");
+    const [selectorType, ...selectorModifiers] = typeAndModifiers.split(".");
+    if (
+      (selectorType !== "*" && selectorType !== type)
+      || (selectorLanguage && selectorLanguage !== language)
+      || !selectorModifiers.every((modifier) => modifiers.includes(modifier))
+    ) {
+      continue;
+    }
+    const score = (selectorType === "*" ? 0 : 100) + selectorModifiers.length * 100 + (selectorLanguage ? 10 : 0);
+    if (score > bestScore) {
+      best = selector;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+type OpenCodeEditor = (
+  source: editor.ICodeEditor,
+  resource: Uri,
+  selectionOrPosition?: IRange | IPosition,
+  sideBySide?: boolean,
+) => boolean | Promise<boolean>;
+
 export enum InputBoxValidationSeverity {
   Info = 1,
   Warning = 2,
@@ -250,6 +419,173 @@ function normalizeUri(uri?: string | URL | Uri) {
   return uri;
 }
 
+// createQuickPick has same signature as vscode.window.createQuickPick
+// @see https://code.visualstudio.com/api/references/vscode-api#window.createQuickPick
+export function createQuickPick<T extends QuickPickItem>(): QuickPick<T> {
+  const quickInputService = StandaloneServices.get(IQuickInputService);
+  return quickInputService.createQuickPick() as unknown as QuickPick<T>;
+}
+
+const workspaceSymbolProviders = new Set<WorkspaceSymbolProvider>();
+
+// registerWorkspaceSymbolProvider has same signature as vscode.languages.registerWorkspaceSymbolProvider
+// @see https://code.visualstudio.com/api/references/vscode-api#languages.registerWorkspaceSymbolProvider
+export function registerWorkspaceSymbolProvider(provider: WorkspaceSymbolProvider): IDisposable {
+  workspaceSymbolProviders.add(provider);
+  return {
+    dispose: () => {
+      workspaceSymbolProviders.delete(provider);
+    },
+  };
+}
+
+// provideWorkspaceSymbols is same as the `vscode.executeWorkspaceSymbolProvider` command
+export async function provideWorkspaceSymbols(query: string, token: CancellationToken = new CancellationTokenSource().token) {
+  const results = await Promise.all(
+    [...workspaceSymbolProviders].map(async (provider) => {
+      try {
+        return (await provider.provideWorkspaceSymbols(query, token)) ?? [];
+      } catch (error) {
+        // a failing provider doesn't fail the whole operation
+        console.error(error);
+        return [];
+      }
+    }),
+  );
+  return results.flat() as SymbolInformation[];
+}
+
+const callHierarchyProviders: [languageId: string, provider: CallHierarchyProvider][] = [];
+const typeHierarchyProviders: [languageId: string, provider: TypeHierarchyProvider][] = [];
+const onDidChangeHierarchyProviders = new Emitter<void>();
+
+// the items are resolved by the provider that returned them, like the hierarchy sessions of VS Code
+const callHierarchyItemProviders = new WeakMap<CallHierarchyItem, CallHierarchyProvider>();
+const typeHierarchyItemProviders = new WeakMap<TypeHierarchyItem, TypeHierarchyProvider>();
+
+function registerHierarchyProvider<T>(providers: [string, T][], languageId: string, provider: T): IDisposable {
+  const entry: [string, T] = [languageId, provider];
+  providers.push(entry);
+  onDidChangeHierarchyProviders.fire();
+  return {
+    dispose: () => {
+      const index = providers.indexOf(entry);
+      if (index !== -1) {
+        providers.splice(index, 1);
+        onDidChangeHierarchyProviders.fire();
+      }
+    },
+  };
+}
+
+function getHierarchyProvider<T>(providers: [string, T][], languageId: string): T | undefined {
+  return providers.findLast(([id]) => id === languageId)?.[1];
+}
+
+/** set the `editorHasCallHierarchyProvider` and `editorHasTypeHierarchyProvider` context keys of the editor, same as VS Code */
+function bindHierarchyContextKeys(codeEditor: editor.IStandaloneCodeEditor) {
+  const hasCallHierarchyProvider = codeEditor.createContextKey<boolean>("editorHasCallHierarchyProvider", false);
+  const hasTypeHierarchyProvider = codeEditor.createContextKey<boolean>("editorHasTypeHierarchyProvider", false);
+  const update = () => {
+    const languageId = codeEditor.getModel()?.getLanguageId() ?? "";
+    hasCallHierarchyProvider.set(!!getHierarchyProvider(callHierarchyProviders, languageId));
+    hasTypeHierarchyProvider.set(!!getHierarchyProvider(typeHierarchyProviders, languageId));
+  };
+  const disposables = [
+    codeEditor.onDidChangeModel(update),
+    codeEditor.onDidChangeModelLanguage(update),
+    onDidChangeHierarchyProviders.event(update),
+  ];
+  codeEditor.onDidDispose(() => disposables.forEach((disposable) => disposable.dispose()));
+  update();
+}
+
+// registerCallHierarchyProvider has same signature as vscode.languages.registerCallHierarchyProvider
+// @see https://code.visualstudio.com/api/references/vscode-api#languages.registerCallHierarchyProvider
+export function registerCallHierarchyProvider(languageId: string, provider: CallHierarchyProvider): IDisposable {
+  return registerHierarchyProvider(callHierarchyProviders, languageId, provider);
+}
+
+// prepareCallHierarchy is same as the `vscode.prepareCallHierarchy` command
+export async function prepareCallHierarchy(
+  model: editor.ITextModel,
+  position: IPosition,
+  token: CancellationToken = new CancellationTokenSource().token,
+): Promise<CallHierarchyItem[]> {
+  const provider = getHierarchyProvider(callHierarchyProviders, model.getLanguageId());
+  const items = [(await provider?.prepareCallHierarchy(model, Position.lift(position), token)) ?? []].flat();
+  items.forEach((item) => callHierarchyItemProviders.set(item, provider!));
+  return items;
+}
+
+// provideIncomingCalls is same as the `vscode.provideIncomingCalls` command
+export async function provideIncomingCalls(
+  item: CallHierarchyItem,
+  token: CancellationToken = new CancellationTokenSource().token,
+): Promise<CallHierarchyIncomingCall[]> {
+  const provider = callHierarchyItemProviders.get(item);
+  const calls = (await provider?.provideCallHierarchyIncomingCalls(item, token)) ?? [];
+  calls.forEach((call) => callHierarchyItemProviders.set(call.from, provider!));
+  return calls;
+}
+
+// provideOutgoingCalls is same as the `vscode.provideOutgoingCalls` command
+export async function provideOutgoingCalls(
+  item: CallHierarchyItem,
+  token: CancellationToken = new CancellationTokenSource().token,
+): Promise<CallHierarchyOutgoingCall[]> {
+  const provider = callHierarchyItemProviders.get(item);
+  const calls = (await provider?.provideCallHierarchyOutgoingCalls(item, token)) ?? [];
+  calls.forEach((call) => callHierarchyItemProviders.set(call.to, provider!));
+  return calls;
+}
+
+// registerTypeHierarchyProvider has same signature as vscode.languages.registerTypeHierarchyProvider
+// @see https://code.visualstudio.com/api/references/vscode-api#languages.registerTypeHierarchyProvider
+export function registerTypeHierarchyProvider(languageId: string, provider: TypeHierarchyProvider): IDisposable {
+  return registerHierarchyProvider(typeHierarchyProviders, languageId, provider);
+}
+
+// prepareTypeHierarchy is same as the `vscode.prepareTypeHierarchy` command
+export async function prepareTypeHierarchy(
+  model: editor.ITextModel,
+  position: IPosition,
+  token: CancellationToken = new CancellationTokenSource().token,
+): Promise<TypeHierarchyItem[]> {
+  const provider = getHierarchyProvider(typeHierarchyProviders, model.getLanguageId());
+  const items = [(await provider?.prepareTypeHierarchy(model, Position.lift(position), token)) ?? []].flat();
+  items.forEach((item) => typeHierarchyItemProviders.set(item, provider!));
+  return items;
+}
+
+// provideSupertypes is same as the `vscode.provideSupertypes` command
+export async function provideSupertypes(
+  item: TypeHierarchyItem,
+  token: CancellationToken = new CancellationTokenSource().token,
+): Promise<TypeHierarchyItem[]> {
+  const provider = typeHierarchyItemProviders.get(item);
+  const items = (await provider?.provideTypeHierarchySupertypes(item, token)) ?? [];
+  items.forEach((item) => typeHierarchyItemProviders.set(item, provider!));
+  return items;
+}
+
+// provideSubtypes is same as the `vscode.provideSubtypes` command
+export async function provideSubtypes(
+  item: TypeHierarchyItem,
+  token: CancellationToken = new CancellationTokenSource().token,
+): Promise<TypeHierarchyItem[]> {
+  const provider = typeHierarchyItemProviders.get(item);
+  const items = (await provider?.provideTypeHierarchySubtypes(item, token)) ?? [];
+  items.forEach((item) => typeHierarchyItemProviders.set(item, provider!));
+  return items;
+}
+
+// same as the "Go to Definition" navigation, the resource is opened by the registered editor openers
+export function openCodeEditor(source: editor.ICodeEditor, resource: Uri, selection?: IRange, sideBySide?: boolean) {
+  const codeEditorService = StandaloneServices.get(ICodeEditorService);
+  return codeEditorService.openCodeEditor({ resource, options: { selection } }, source, sideBySide);
+}
+
 function convertPickItem(item: string | QuickPickItem) {
   if (typeof item === "string") {
     return { type: "item", label: item, plainMode: true };
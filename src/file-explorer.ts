@@ -0,0 +1,373 @@
+import type { Workspace } from "./workspace.ts";
+
+// ! external modules, don't remove the `.js` extension
+import { NotFoundError } from "./workspace.js";
+import { debunce, filenameToURL } from "./util.js";
+
+interface ExplorerEntry {
+  path: string;
+  name: string;
+  type: number;
+  depth: number;
+}
+
+interface ExplorerEditing {
+  /** the directory of the new entry, or the parent of the renamed entry. */
+  parent: string;
+  /** the type of the new entry. */
+  type: number;
+  /** the path of the renamed entry. */
+  path?: string;
+}
+
+const dragType = "application/x-monaco-file-explorer";
+const setStyle = (el: HTMLElement, style: Partial<CSSStyleDeclaration>) => Object.assign(el.style, style);
+const dirname = (path: string) => path.slice(0, path.lastIndexOf("/")) || "/";
+const join = (dir: string, name: string) => (dir === "/" ? "" : dir) + "/" + name;
+
+/** Define the `<monaco-file-explorer>` custom element that renders the files of the workspace. */
+export function defineFileExplorer(workspace: Workspace) {
+  if (customElements.get("monaco-file-explorer")) {
+    return;
+  }
+  const fs = workspace.fs;
+  customElements.define(
+    "monaco-file-explorer",
+    class extends HTMLElement {
+      #headerEl = document.createElement("div");
+      #listEl = document.createElement("div");
+      #expanded = new Set<string>();
+      #selected?: string;
+      #editing?: ExplorerEditing;
+      #renderId = 0;
+      #dispose?: () => void;
+
+      constructor() {
+        super();
+        const headerEl = this.#headerEl;
+        const listEl = this.#listEl;
+        const buttons: [string, () => void][] = [
+          ["New File", () => this.#startEditing({ parent: this.#targetDir(), type: 1 })],
+          ["New Folder", () => this.#startEditing({ parent: this.#targetDir(), type: 2 })],
+          ["Rename", () => this.#rename()],
+          ["Delete", () => this.#delete()],
+        ];
+        for (const [label, onclick] of buttons) {
+          const button = document.createElement("button");
+          button.textContent = label;
+          button.onclick = onclick;
+          headerEl.appendChild(button);
+        }
+        headerEl.className = "monaco-file-explorer-header";
+        listEl.className = "monaco-file-explorer-list";
+        listEl.role = "tree";
+        listEl.tabIndex = 0;
+        setStyle(headerEl, { display: "flex", flexWrap: "wrap", gap: "4px", padding: "4px" });
+        setStyle(listEl, { flex: "1", overflow: "auto", outline: "none" });
+
+        listEl.addEventListener("click", (e) => this.#onClick(e));
+        listEl.addEventListener("keydown", (e) => this.#onKeyDown(e));
+        listEl.addEventListener("dragstart", (e) => {
+          const path = this.#getItem(e)?.dataset.path;
+          if (path && e.dataTransfer) {
+            e.dataTransfer.setData(dragType, path);
+            e.dataTransfer.effectAllowed = "move";
+          }
+        });
+        listEl.addEventListener("dragover", (e) => {
+          if (e.dataTransfer?.types.includes(dragType)) {
+            e.preventDefault();
+            e.dataTransfer.dropEffect = "move";
+          }
+        });
+        listEl.addEventListener("drop", (e) => {
+          const source = e.dataTransfer?.getData(dragType);
+          if (source) {
+            e.preventDefault();
+            const item = this.#getItem(e);
+            // dropping on a file moves the entry to the directory of the file
+            const target = !item ? "/" : item.dataset.type === "2" ? item.dataset.path! : dirname(item.dataset.path!);
+            this.#move(source, target);
+          }
+        });
+      }
+
+      connectedCallback() {
+        setStyle(this, { display: "flex", flexDirection: "column", overflow: "hidden", userSelect: "none", fontSize: "13px" });
+        this.replaceChildren(this.#headerEl, this.#listEl);
+        // don't re-render while the user is typing a name, the list is re-rendered after the editing is done
+        const render = debunce(() => !this.#editing && this.#render(), 50);
+        const unwatch = fs.watch("/", { recursive: true }, (kind) => {
+          // the content changes of the files don't change the tree
+          if (kind !== "modify") {
+            render();
+          }
+        });
+        const unlisten = workspace.history.onChange(render);
+        this.#dispose = () => {
+          unwatch();
+          unlisten();
+        };
+        this.#render();
+      }
+
+      disconnectedCallback() {
+        this.#dispose?.();
+        this.#dispose = undefined;
+      }
+
+      #getItem(e: Event) {
+        return (e.target as HTMLElement).closest<HTMLElement>(".monaco-file-explorer-item");
+      }
+
+      /** the directory to create new entries in, it's the selected directory or the directory of the selected file. */
+      #targetDir(): string {
+        const selected = this.#listEl.querySelector<HTMLElement>(".monaco-file-explorer-item.selected");
+        if (!selected) {
+          return "/";
+        }
+        return selected.dataset.type === "2" ? selected.dataset.path! : dirname(selected.dataset.path!);
+      }
+
+      #onClick(e: MouseEvent) {
+        const item = this.#getItem(e);
+        if (!item) {
+          return;
+        }
+        const path = item.dataset.path!;
+        this.#selected = path;
+        if (item.dataset.type === "2") {
+          if (!this.#expanded.delete(path)) {
+            this.#expanded.add(path);
+          }
+        } else {
+          workspace.openTextDocument(path);
+        }
+        this.#render();
+      }
+
+      #onKeyDown(e: KeyboardEvent) {
+        if (e.target !== this.#listEl || !this.#selected) {
+          return;
+        }
+        if (e.key === "F2") {
+          e.preventDefault();
+          this.#rename();
+        } else if (e.key === "Delete" || (e.key === "Backspace" && (e.metaKey || e.ctrlKey))) {
+          e.preventDefault();
+          this.#delete();
+        }
+      }
+
+      #startEditing(editing: ExplorerEditing) {
+        this.#editing = editing;
+        if (editing.parent !== "/") {
+          this.#expanded.add(editing.parent);
+        }
+        this.#render();
+      }
+
+      /** select the entry and expand its ancestor directories. */
+      #reveal(path: string) {
+        this.#selected = path;
+        for (let dir = dirname(path); dir !== "/"; dir = dirname(dir)) {
+          this.#expanded.add(dir);
+        }
+      }
+
+      #rename() {
+        if (this.#selected) {
+          this.#startEditing({ parent: dirname(this.#selected), type: 0, path: this.#selected });
+        }
+      }
+
+      async #delete() {
+        const path = this.#selected;
+        if (path && (globalThis.confirm?.(`Are you sure you want to delete '${path.slice(1)}'?`) ?? true)) {
+          try {
+            await fs.delete(path, { recursive: true });
+            this.#selected = undefined;
+          } catch (error) {
+            console.error(error);
+          }
+        }
+      }
+
+      async #move(source: string, targetDir: string) {
+        const target = join(targetDir, source.split("/").pop()!);
+        if (target === source || targetDir === source || targetDir.startsWith(source + "/")) {
+          return;
+        }
+        try {
+          await fs.rename(source, target);
+          this.#reveal(target);
+        } catch (error) {
+          console.error(error);
+        }
+      }
+
+      /** create or rename the entry with the name of the editing input. */
+      async #commit(editing: ExplorerEditing, name: string): Promise<void> {
+        const path = join(editing.parent, name);
+        if (editing.path) {
+          await fs.rename(editing.path, path);
+        } else {
+          const stat = await fs.stat(path).catch((error) => {
+            if (error instanceof NotFoundError) {
+              return null;
+            }
+            throw error;
+          });
+          if (stat) {
+            throw new Error(`create ${path}: file exists`);
+          }
+          if (editing.type === 2) {
+            await fs.createDirectory(path);
+          } else {
+            if (name.includes("/")) {
+              await fs.createDirectory(dirname(path));
+            }
+            await fs.writeFile(path, "");
+            workspace.openTextDocument(path);
+          }
+        }
+        this.#reveal(path);
+      }
+
+      #createInput(editing: ExplorerEditing, depth: number): HTMLElement {
+        const rowEl = document.createElement("div");
+        const input = document.createElement("input");
+        const initial = editing.path?.split("/").pop() ?? "";
+        let submitting = false;
+        const cancel = () => {
+          if (this.#editing === editing) {
+            this.#editing = undefined;
+            this.#render();
+          }
+        };
+        const submit = async () => {
+          const name = input.value.trim().replace(/^\/+|\/+$/g, "");
+          if (!name || name === initial) {
+            cancel();
+            return;
+          }
+          submitting = true;
+          try {
+            await this.#commit(editing, name);
+            cancel();
+          } catch (error) {
+            input.setCustomValidity(error instanceof Error ? error.message : String(error));
+            input.reportValidity();
+          } finally {
+            submitting = false;
+          }
+        };
+        input.value = initial;
+        input.oninput = () => input.setCustomValidity("");
+        input.onblur = () => !submitting && cancel();
+        input.onkeydown = (e) => {
+          e.stopPropagation();
+          if (e.key === "Enter") {
+            e.preventDefault();
+            submit();
+          } else if (e.key === "Escape") {
+            e.preventDefault();
+            cancel();
+          }
+        };
+        setStyle(rowEl, { display: "flex", alignItems: "center", height: "22px", paddingLeft: 20 + depth * 12 + "px" });
+        setStyle(input, { flex: "1", minWidth: "0", font: "inherit" });
+        rowEl.appendChild(input);
+        setTimeout(() => {
+          input.focus();
+          input.setSelectionRange(0, initial.lastIndexOf(".") > 0 ? initial.lastIndexOf(".") : initial.length);
+        });
+        return rowEl;
+      }
+
+      #createItem(entry: ExplorerEntry, current: string): HTMLElement {
+        const { path, name, type, depth } = entry;
+        const isDir = type === 2;
+        const selected = path === this.#selected;
+        const itemEl = document.createElement("div");
+        const iconEl = document.createElement("span");
+        const labelEl = document.createElement("span");
+        itemEl.className = "monaco-file-explorer-item" + (selected ? " selected" : "") + (path === current ? " active" : "");
+        itemEl.role = "treeitem";
+        itemEl.title = path;
+        itemEl.draggable = true;
+        itemEl.dataset.path = path;
+        itemEl.dataset.type = String(type);
+        itemEl.ariaSelected = String(selected);
+        if (isDir) {
+          itemEl.ariaExpanded = String(this.#expanded.has(path));
+        }
+        iconEl.textContent = isDir ? (this.#expanded.has(path) ? "▾" : "▸") : "";
+        labelEl.textContent = name;
+        setStyle(itemEl, {
+          display: "flex",
+          alignItems: "center",
+          gap: "4px",
+          height: "22px",
+          paddingLeft: 8 + depth * 12 + "px",
+          cursor: "pointer",
+          whiteSpace: "nowrap",
+          background: selected ? "rgba(128,128,128,0.3)" : path === current ? "rgba(128,128,128,0.15)" : "",
+        });
+        setStyle(iconEl, { display: "inline-block", width: "12px", flexShrink: "0", textAlign: "center" });
+        setStyle(labelEl, { overflow: "hidden", textOverflow: "ellipsis" });
+        itemEl.append(iconEl, labelEl);
+        return itemEl;
+      }
+
+      async #render() {
+        const renderId = ++this.#renderId;
+        const entries: ExplorerEntry[] = [];
+        const walk = async (dir: string, depth: number) => {
+          let items: [string, number][];
+          try {
+            items = await fs.readDirectory(dir);
+          } catch (error) {
+            if (error instanceof NotFoundError) {
+              this.#expanded.delete(dir);
+              return;
+            }
+            throw error;
+          }
+          // directories first, then sort by name
+          items.sort(([a, aType], [b, bType]) => Number(bType === 2) - Number(aType === 2) || a.localeCompare(b));
+          for (const [name, type] of items) {
+            const path = join(dir, name);
+            entries.push({ path, name, type, depth });
+            if (type === 2 && this.#expanded.has(path)) {
+              await walk(path, depth + 1);
+            }
+          }
+        };
+        await walk("/", 0);
+        if (renderId !== this.#renderId) {
+          // a newer render is in progress
+          return;
+        }
+
+        const current = workspace.history.state.current ? filenameToURL(workspace.history.state.current).pathname : "";
+        const editing = this.#editing;
+        const children: HTMLElement[] = [];
+        if (editing && !editing.path && editing.parent === "/") {
+          children.push(this.#createInput(editing, 0));
+        }
+        for (const entry of entries) {
+          if (editing?.path === entry.path) {
+            children.push(this.#createInput(editing, entry.depth));
+            continue;
+          }
+          children.push(this.#createItem(entry, current));
+          if (editing && !editing.path && editing.parent === entry.path) {
+            children.push(this.#createInput(editing, entry.depth + 1));
+          }
+        }
+        this.#listEl.replaceChildren(...children);
+      }
+    },
+  );
+}
@@ -0,0 +1,456 @@
+import type monacoNS from "monaco-editor-core";
+
+type Monaco = typeof import("./editor-core");
+type HierarchyItem = monacoNS.CallHierarchyItem | monacoNS.TypeHierarchyItem;
+type HierarchyDirection = "incomingCalls" | "outgoingCalls" | "supertypes" | "subtypes";
+
+interface HierarchyNode {
+  item: HierarchyItem;
+  /** the location to open, e.g. the call site of an incoming call. */
+  location: { uri: monacoNS.Uri; range: monacoNS.IRange };
+  depth: number;
+  parent?: HierarchyNode;
+  children?: HierarchyNode[];
+  expanded: boolean;
+}
+
+interface Direction {
+  title: string;
+  icon: string;
+  toggle: HierarchyDirection;
+  toggleLabel: string;
+  resolve(monaco: Monaco, item: HierarchyItem, token: monacoNS.CancellationToken): Promise<Pick<HierarchyNode, "item" | "location">[]>;
+}
+
+const typeNodes = (items: HierarchyItem[]) => items.map((item) => ({ item, location: { uri: item.uri, range: item.selectionRange } }));
+
+const directions: Record<HierarchyDirection, Direction> = {
+  incomingCalls: {
+    title: "Callers Of",
+    icon: "call-incoming",
+    toggle: "outgoingCalls",
+    toggleLabel: "Show Outgoing Calls",
+    resolve: async (monaco, item, token) =>
+      (await monaco.provideIncomingCalls(item, token)).map(({ from, fromRanges }) => ({
+        item: from,
+        location: { uri: from.uri, range: fromRanges[0] ?? from.selectionRange },
+      })),
+  },
+  outgoingCalls: {
+    title: "Calls From",
+    icon: "call-outgoing",
+    toggle: "incomingCalls",
+    toggleLabel: "Show Incoming Calls",
+    resolve: async (monaco, item, token) =>
+      (await monaco.provideOutgoingCalls(item, token)).map(({ to }) => ({
+        item: to,
+        location: { uri: to.uri, range: to.selectionRange },
+      })),
+  },
+  supertypes: {
+    title: "Supertypes Of",
+    icon: "type-hierarchy-super",
+    toggle: "subtypes",
+    toggleLabel: "Show Subtypes",
+    resolve: async (monaco, item, token) => typeNodes(await monaco.provideSupertypes(item, token)),
+  },
+  subtypes: {
+    title: "Subtypes Of",
+    icon: "type-hierarchy-sub",
+    toggle: "supertypes",
+    toggleLabel: "Show Supertypes",
+    resolve: async (monaco, item, token) => typeNodes(await monaco.provideSubtypes(item, token)),
+  },
+};
+
+// the codicons of `monaco.languages.SymbolKind`
+const symbolIcons = [
+  "file",
+  "module",
+  "namespace",
+  "package",
+  "class",
+  "method",
+  "property",
+  "field",
+  "constructor",
+  "enum",
+  "interface",
+  "function",
+  "variable",
+  "constant",
+  "string",
+  "number",
+  "boolean",
+  "array",
+  "object",
+  "key",
+  "null",
+  "enum-member",
+  "struct",
+  "event",
+  "operator",
+  "type-parameter",
+];
+
+const PEEK_HEIGHT_IN_LINES = 12;
+
+const peeks = new WeakMap<monacoNS.editor.ICodeEditor, HierarchyPeek>();
+
+const setStyle = (el: HTMLElement, style: Partial<CSSStyleDeclaration>) => Object.assign(el.style, style);
+
+/** Peek the incoming and outgoing calls of the symbol at the cursor. */
+export function showCallHierarchy(monaco: Monaco, editor: monacoNS.editor.ICodeEditor) {
+  showHierarchy(monaco, editor, "incomingCalls");
+}
+
+/** Peek the subtypes and supertypes of the type at the cursor. */
+export function showTypeHierarchy(monaco: Monaco, editor: monacoNS.editor.ICodeEditor) {
+  showHierarchy(monaco, editor, "subtypes");
+}
+
+function showHierarchy(monaco: Monaco, editor: monacoNS.editor.ICodeEditor, direction: HierarchyDirection) {
+  const model = editor.getModel();
+  const position = editor.getPosition();
+  if (model && position) {
+    peeks.get(editor)?.dispose();
+    const peek = new HierarchyPeek(monaco, editor, position.lineNumber, direction);
+    peeks.set(editor, peek);
+    peek.prepare(model, position);
+  }
+}
+
+/**
+ * The peek widget that browses the hierarchy tree below the cursor line, like the zone widgets of VS Code,
+ * a view zone reserves the space between the lines and an overlay widget renders the tree on top of it.
+ */
+class HierarchyPeek implements monacoNS.editor.IOverlayWidget {
+  #monaco: Monaco;
+  #editor: monacoNS.editor.ICodeEditor;
+  #direction: HierarchyDirection;
+  #tokenSource: monacoNS.CancellationTokenSource;
+  #domNode = document.createElement("div");
+  #iconEl = document.createElement("span");
+  #titleEl = document.createElement("span");
+  #descriptionEl = document.createElement("span");
+  #toggleEl = document.createElement("span");
+  #listEl = document.createElement("div");
+  #roots: HierarchyNode[] = [];
+  #rows: HierarchyNode[] = [];
+  #selected?: HierarchyNode;
+  #message = "Loading...";
+  #top = -1000000;
+  #zoneId = "";
+  #disposables: monacoNS.IDisposable[];
+
+  constructor(monaco: Monaco, editor: monacoNS.editor.ICodeEditor, lineNumber: number, direction: HierarchyDirection) {
+    const height = editor.getOption(monaco.editor.EditorOption.lineHeight) * PEEK_HEIGHT_IN_LINES;
+    const headerEl = document.createElement("div");
+    const closeEl = document.createElement("span");
+    this.#monaco = monaco;
+    this.#editor = editor;
+    this.#direction = direction;
+    this.#tokenSource = new monaco.CancellationTokenSource();
+    this.#domNode.className = "monaco-hierarchy-peek";
+    this.#listEl.role = "tree";
+    this.#listEl.tabIndex = 0;
+    this.#toggleEl.className = "codicon codicon-arrow-swap";
+    this.#toggleEl.role = "button";
+    closeEl.className = "codicon codicon-close";
+    closeEl.role = "button";
+    closeEl.title = "Close";
+    setStyle(this.#domNode, {
+      display: "flex",
+      flexDirection: "column",
+      height: height + "px",
+      boxSizing: "border-box",
+      borderTop: "2px solid var(--vscode-peekView-border)",
+      borderBottom: "2px solid var(--vscode-peekView-border)",
+      background: "var(--vscode-peekViewResult-background)",
+      fontSize: "13px",
+    });
+    setStyle(headerEl, {
+      display: "flex",
+      alignItems: "center",
+      gap: "6px",
+      flexShrink: "0",
+      height: "24px",
+      padding: "0 8px",
+      background: "var(--vscode-peekViewTitle-background)",
+    });
+    setStyle(this.#titleEl, { color: "var(--vscode-peekViewTitleLabel-foreground)", whiteSpace: "nowrap" });
+    setStyle(this.#descriptionEl, {
+      flex: "1",
+      overflow: "hidden",
+      textOverflow: "ellipsis",
+      whiteSpace: "nowrap",
+      color: "var(--vscode-peekViewTitleDescription-foreground)",
+    });
+    setStyle(this.#toggleEl, { cursor: "pointer" });
+    setStyle(closeEl, { cursor: "pointer" });
+    setStyle(this.#listEl, { flex: "1", overflow: "auto", outline: "none", userSelect: "none" });
+    headerEl.append(this.#iconEl, this.#titleEl, this.#descriptionEl, this.#toggleEl, closeEl);
+    this.#domNode.append(headerEl, this.#listEl);
+    this.#toggleEl.addEventListener("click", () => this.#toggleDirection());
+    closeEl.addEventListener("click", () => this.#close());
+    this.#listEl.addEventListener("click", (e) => this.#onClick(e));
+    this.#listEl.addEventListener("dblclick", (e) => this.#onClick(e, true));
+    this.#listEl.addEventListener("keydown", (e) => this.#onKeyDown(e));
+
+    editor.changeViewZones((accessor) => {
+      this.#zoneId = accessor.addZone({
+        afterLineNumber: lineNumber,
+        heightInPx: height,
+        domNode: document.createElement("div"),
+        onDomNodeTop: (top) => {
+          this.#top = top;
+          editor.layoutOverlayWidget(this);
+        },
+      });
+    });
+    editor.addOverlayWidget(this);
+    editor.revealLineInCenterIfOutsideViewport(lineNumber);
+    this.#disposables = [
+      editor.onDidLayoutChange(() => this.#layout()),
+      editor.onDidChangeModel(() => this.dispose()),
+      editor.onKeyDown((e) => e.keyCode === monaco.KeyCode.Escape && this.dispose()),
+    ];
+    this.#layout();
+    this.#render();
+  }
+
+  getId(): string {
+    return "monaco.hierarchy.peek";
+  }
+
+  getDomNode(): HTMLElement {
+    return this.#domNode;
+  }
+
+  getPosition(): monacoNS.editor.IOverlayWidgetPosition {
+    return { preference: { top: this.#top, left: 0 } };
+  }
+
+  async prepare(model: monacoNS.editor.ITextModel, position: monacoNS.IPosition) {
+    const monaco = this.#monaco;
+    const { token } = this.#tokenSource;
+    const isCall = this.#direction === "incomingCalls" || this.#direction === "outgoingCalls";
+    try {
+      const items = isCall
+        ? await monaco.prepareCallHierarchy(model, position, token)
+        : await monaco.prepareTypeHierarchy(model, position, token);
+      if (!token.isCancellationRequested) {
+        this.#setRoots(items);
+      }
+    } catch (error) {
+      console.error(error);
+      this.#message = "Failed to resolve the hierarchy.";
+      this.#render();
+    }
+  }
+
+  dispose() {
+    const editor = this.#editor;
+    if (peeks.get(editor) === this) {
+      peeks.delete(editor);
+    }
+    this.#tokenSource.cancel();
+    this.#tokenSource.dispose();
+    this.#disposables.forEach((disposable) => disposable.dispose());
+    this.#disposables = [];
+    editor.changeViewZones((accessor) => accessor.removeZone(this.#zoneId));
+    editor.removeOverlayWidget(this);
+  }
+
+  #layout() {
+    const { width, minimap, verticalScrollbarWidth } = this.#editor.getLayoutInfo();
+    this.#domNode.style.width = width - minimap.minimapWidth - verticalScrollbarWidth + "px";
+  }
+
+  #setRoots(items: HierarchyItem[]) {
+    this.#roots = items.map((item) => ({ item, location: { uri: item.uri, range: item.selectionRange }, depth: 0, expanded: false }));
+    this.#selected = this.#roots[0];
+    this.#message = "No results found.";
+    this.#render();
+    this.#roots.forEach((node) => this.#expand(node));
+    this.#listEl.focus();
+  }
+
+  #toggleDirection() {
+    this.#direction = directions[this.#direction].toggle;
+    // the children of the nodes are resolved again in the new direction
+    this.#setRoots(this.#roots.map((node) => node.item));
+  }
+
+  async #expand(node: HierarchyNode) {
+    node.expanded = true;
+    if (!node.children) {
+      const { token } = this.#tokenSource;
+      this.#render();
+      const children = await directions[this.#direction].resolve(this.#monaco, node.item, token).catch((error) => {
+        console.error(error);
+        return [];
+      });
+      if (token.isCancellationRequested) {
+        return;
+      }
+      node.children = children.map(({ item, location }) => ({ item, location, depth: node.depth + 1, parent: node, expanded: false }));
+    }
+    this.#render();
+  }
+
+  #collapse(node: HierarchyNode) {
+    node.expanded = false;
+    this.#render();
+  }
+
+  #select(node: HierarchyNode | undefined) {
+    if (node) {
+      this.#selected = node;
+      this.#render();
+    }
+  }
+
+  /** open the location of the node with the editor openers, the files that are not open are opened by the workspace. */
+  async #open(node: HierarchyNode) {
+    const { uri, range } = node.location;
+    const editor = this.#editor;
+    this.dispose();
+    const target = await this.#monaco.openCodeEditor(editor, uri, range);
+    target?.revealRangeInCenterIfOutsideViewport(range);
+    target?.focus();
+  }
+
+  #close() {
+    this.dispose();
+    this.#editor.focus();
+  }
+
+  #onClick(e: MouseEvent, open?: boolean) {
+    const itemEl = (e.target as HTMLElement).closest<HTMLElement>(".monaco-hierarchy-item");
+    if (!itemEl) {
+      return;
+    }
+    const node = this.#rows[Number(itemEl.dataset.index)];
+    if (open) {
+      this.#open(node);
+    } else if ((e.target as HTMLElement).classList.contains("monaco-hierarchy-twisty")) {
+      this.#selected = node;
+      if (node.expanded) {
+        this.#collapse(node);
+      } else {
+        this.#expand(node);
+      }
+    } else {
+      this.#select(node);
+    }
+  }
+
+  #onKeyDown(e: KeyboardEvent) {
+    const node = this.#selected;
+    const index = node ? this.#rows.indexOf(node) : -1;
+    switch (e.key) {
+      case "ArrowDown":
+        this.#select(this.#rows[index + 1]);
+        break;
+      case "ArrowUp":
+        this.#select(this.#rows[index - 1]);
+        break;
+      case "ArrowRight":
+        if (node && !node.expanded) {
+          this.#expand(node);
+        } else {
+          this.#select(node?.children?.[0]);
+        }
+        break;
+      case "ArrowLeft":
+        if (node?.expanded) {
+          this.#collapse(node);
+        } else {
+          this.#select(node?.parent);
+        }
+        break;
+      case "Enter":
+        if (node) {
+          this.#open(node);
+        }
+        break;
+      case "Escape":
+        this.#close();
+        break;
+      default:
+        return;
+    }
+    // prevent the keybindings of the editor
+    e.preventDefault();
+    e.stopPropagation();
+  }
+
+  #createItem(node: HierarchyNode, index: number): HTMLElement {
+    const { item, depth, expanded, children } = node;
+    const { uri } = item;
+    const selected = node === this.#selected;
+    const path = uri.scheme === "file" ? uri.path.slice(1) : uri.toString();
+    const itemEl = document.createElement("div");
+    const twistyEl = document.createElement("span");
+    const iconEl = document.createElement("span");
+    const nameEl = document.createElement("span");
+    const descriptionEl = document.createElement("span");
+    itemEl.className = "monaco-hierarchy-item";
+    itemEl.role = "treeitem";
+    itemEl.title = item.name + " - " + path;
+    itemEl.dataset.index = String(index);
+    itemEl.ariaLevel = String(depth + 1);
+    itemEl.ariaSelected = String(selected);
+    itemEl.ariaExpanded = String(expanded);
+    twistyEl.className = "monaco-hierarchy-twisty codicon codicon-chevron-" + (expanded ? "down" : "right");
+    iconEl.className = "codicon codicon-symbol-" + (symbolIcons[item.kind] ?? "variable");
+    nameEl.textContent = item.name;
+    descriptionEl.textContent = item.detail ? item.detail + " · " + path : path;
+    setStyle(itemEl, {
+      display: "flex",
+      alignItems: "center",
+      gap: "4px",
+      height: "22px",
+      paddingLeft: 8 + depth * 16 + "px",
+      cursor: "pointer",
+      whiteSpace: "nowrap",
+      background: selected ? "var(--vscode-peekViewResult-selectionBackground)" : "",
+      color: selected ? "var(--vscode-peekViewResult-selectionForeground)" : "var(--vscode-peekViewResult-fileForeground)",
+    });
+    // the leaf nodes have no children to expand
+    setStyle(twistyEl, { visibility: children?.length === 0 ? "hidden" : "" });
+    setStyle(nameEl, { textDecoration: item.tags?.includes(1) ? "line-through" : "" });
+    setStyle(descriptionEl, { overflow: "hidden", textOverflow: "ellipsis", opacity: "0.7" });
+    itemEl.append(twistyEl, iconEl, nameEl, descriptionEl);
+    return itemEl;
+  }
+
+  #render() {
+    const { title, icon, toggleLabel } = directions[this.#direction];
+    const rows: HierarchyNode[] = [];
+    const walk = (nodes: HierarchyNode[]) => {
+      for (const node of nodes) {
+        rows.push(node);
+        if (node.expanded && node.children) {
+          walk(node.children);
+        }
+      }
+    };
+    walk(this.#roots);
+    this.#rows = rows;
+    this.#iconEl.className = "codicon codicon-" + icon;
+    this.#titleEl.textContent = title;
+    this.#descriptionEl.textContent = this.#roots.map((node) => node.item.name).join(", ");
+    this.#toggleEl.title = toggleLabel;
+    if (rows.length === 0) {
+      const messageEl = document.createElement("div");
+      messageEl.textContent = this.#message;
+      setStyle(messageEl, { padding: "4px 8px", opacity: "0.8" });
+      this.#listEl.replaceChildren(messageEl);
+      return;
+    }
+    this.#listEl.replaceChildren(...rows.map((node, index) => this.#createItem(node, index)));
+    this.#listEl.querySelector<HTMLElement>("[aria-selected=true]")?.scrollIntoView({ block: "nearest" });
+  }
+}
@@ -3,7 +3,19 @@ import { syntaxes } from "./syntaxes/index.ts";
 
 // ! external modules, don't remove the `.js` extension
 import { registerSyntax, registerTheme } from "./core.js";
-export { errors, hydrate, init, lazy, Workspace } from "./core.js";
+export {
+  BroadcastChannelTransport,
+  errors,
+  hydrate,
+  IndexedDBFileSystem,
+  init,
+  lazy,
+  LocalFileSystem,
+  MemoryFileSystem,
+  OPFSFileSystem,
+  OverlayFileSystem,
+  Workspace,
+} from "./core.js";
 
 // register built-in syntaxes
 for (const syntax of syntaxes) {
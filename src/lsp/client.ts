@@ -84,7 +84,7 @@ export function registerBasicFeatures<
     & ILanguageWorkerWithSelectionRanges
     & {
       releaseDocument(uri: string): Promise<void>;
-      fsNotify(kind: "create" | "remove", path: string, type?: number): Promise<void>;
+      fsNotify(kind: "create" | "modify" | "remove", path: string, type?: number): Promise<void>;
     },
 >(
   languageId: string,
@@ -146,9 +146,7 @@ export function registerBasicFeatures<
 
   if (workspace) {
     workspace.fs.watch("/", { recursive: true }, (kind, path, type) => {
-      if (kind !== "modify") {
-        worker.getProxy().then(proxy => proxy.fsNotify(kind, path, type));
-      }
+      worker.getProxy().then(proxy => proxy.fsNotify(kind, path, type));
     });
   }
 }
@@ -776,6 +774,56 @@ export class DocumentRangeFormattingEditProvider<T extends ILanguageWorkerWithFo
 
 // #endregion
 
+// #region FormatOnTypeAdapter
+
+export interface ILanguageWorkerWithFormatOnType {
+  doFormatOnType(
+    uri: string,
+    position: lst.Position,
+    ch: string,
+    options: lst.FormattingOptions,
+  ): Promise<lst.TextEdit[] | null>;
+}
+
+export function registerFormatOnType<T extends ILanguageWorkerWithFormatOnType>(
+  languageId: string,
+  worker: Monaco.editor.MonacoWebWorker<T>,
+  triggerCharacters: string[],
+) {
+  // the provider is only called when the `formatOnType` editor option is enabled
+  monaco.languages.registerOnTypeFormattingEditProvider(languageId, new FormatOnTypeAdapter(worker, triggerCharacters));
+}
+
+export class FormatOnTypeAdapter<T extends ILanguageWorkerWithFormatOnType> implements Monaco.languages.OnTypeFormattingEditProvider {
+  constructor(
+    private readonly _worker: Monaco.editor.MonacoWebWorker<T>,
+    private readonly _triggerCharacters: string[],
+  ) {}
+
+  get autoFormatTriggerCharacters() {
+    return this._triggerCharacters;
+  }
+
+  async provideOnTypeFormattingEdits(
+    model: Monaco.editor.ITextModel,
+    position: Monaco.Position,
+    ch: string,
+    options: Monaco.languages.FormattingOptions,
+    token: Monaco.CancellationToken,
+  ): Promise<Monaco.languages.TextEdit[] | undefined> {
+    const worker = await lspRequest(() => this._worker.withSyncedResources([model.uri]), token);
+    const edits = await lspRequest(
+      () => worker?.doFormatOnType(model.uri.toString(), fromPosition(position), ch, options as lst.FormattingOptions),
+      token,
+    );
+    if (edits) {
+      return edits.map<Monaco.languages.TextEdit>(convertTextEdit);
+    }
+  }
+}
+
+// #endregion
+
 // #region AutoComplete
 
 export interface ILanguageWorkerWithAutoComplete {
@@ -937,6 +985,48 @@ function convertSymbolKind(kind: lst.SymbolKind): Monaco.languages.SymbolKind {
 
 // #endregion
 
+// #region WorkspaceSymbolAdapter
+
+export interface ILanguageWorkerWithWorkspaceSymbols {
+  findWorkspaceSymbols(query: string): Promise<lst.SymbolInformation[] | null>;
+}
+
+const workspaceSymbolWorkers = new WeakSet<Monaco.editor.MonacoWebWorker<any>>();
+
+export function registerWorkspaceSymbols<T extends ILanguageWorkerWithWorkspaceSymbols>(
+  worker: Monaco.editor.MonacoWebWorker<T>,
+) {
+  // a worker may be shared by multiple languages, e.g. the typescript worker
+  if (!workspaceSymbolWorkers.has(worker)) {
+    workspaceSymbolWorkers.add(worker);
+    monaco.registerWorkspaceSymbolProvider(new WorkspaceSymbolAdapter(worker));
+  }
+}
+
+export class WorkspaceSymbolAdapter<T extends ILanguageWorkerWithWorkspaceSymbols> implements Monaco.WorkspaceSymbolProvider {
+  constructor(
+    private readonly _worker: Monaco.editor.MonacoWebWorker<T>,
+  ) {}
+
+  async provideWorkspaceSymbols(
+    query: string,
+    token: Monaco.CancellationToken,
+  ): Promise<Monaco.SymbolInformation[] | undefined> {
+    const worker = await lspRequest(() => this._worker.withSyncedResources([]), token);
+    const items = await lspRequest(() => worker?.findWorkspaceSymbols(query), token);
+    if (items) {
+      return items.map((item) => ({
+        name: item.name,
+        containerName: item.containerName,
+        kind: convertSymbolKind(item.kind),
+        location: convertLocationLink(item.location),
+      }));
+    }
+  }
+}
+
+// #endregion
+
 // #region DefinitionAdapter
 
 export interface ILanguageWorkerWithDefinitions {
@@ -1272,6 +1362,13 @@ export interface ILanguageWorkerWithLinkedEditingRange {
   ): Promise<{ ranges: lst.Range[]; wordPattern?: string } | null>;
 }
 
+export function registerLinkedEditingRange<T extends ILanguageWorkerWithLinkedEditingRange>(
+  languageId: string,
+  worker: Monaco.editor.MonacoWebWorker<T>,
+) {
+  monaco.languages.registerLinkedEditingRangeProvider(languageId, new LinkedEditingRangeAdapter(worker));
+}
+
 export class LinkedEditingRangeAdapter<T extends ILanguageWorkerWithLinkedEditingRange>
   implements Monaco.languages.LinkedEditingRangeProvider
 {
@@ -1301,12 +1398,62 @@ export class LinkedEditingRangeAdapter<T extends ILanguageWorkerWithLinkedEditin
 
 // #endregion
 
+// #region SemanticTokensAdapter
+
+export interface ILanguageWorkerWithSemanticTokens {
+  getDocumentSemanticTokens(uri: string): Promise<lst.SemanticTokens | null>;
+}
+
+export function registerSemanticTokens<T extends ILanguageWorkerWithSemanticTokens>(
+  languageId: string,
+  worker: Monaco.editor.MonacoWebWorker<T>,
+  legend: Monaco.languages.SemanticTokensLegend,
+) {
+  monaco.languages.registerDocumentSemanticTokensProvider(languageId, new SemanticTokensAdapter(worker, legend));
+}
+
+export class SemanticTokensAdapter<T extends ILanguageWorkerWithSemanticTokens>
+  implements Monaco.languages.DocumentSemanticTokensProvider
+{
+  constructor(
+    private readonly _worker: Monaco.editor.MonacoWebWorker<T>,
+    private readonly _legend: Monaco.languages.SemanticTokensLegend,
+  ) {}
+
+  getLegend(): Monaco.languages.SemanticTokensLegend {
+    return this._legend;
+  }
+
+  async provideDocumentSemanticTokens(
+    model: Monaco.editor.ITextModel,
+    _lastResultId: string | null,
+    token: Monaco.CancellationToken,
+  ): Promise<Monaco.languages.SemanticTokens | undefined> {
+    const worker = await lspRequest(() => this._worker.withSyncedResources([model.uri]), token);
+    const tokens = await lspRequest(() => worker?.getDocumentSemanticTokens(model.uri.toString()), token);
+    if (tokens) {
+      return { resultId: tokens.resultId, data: new Uint32Array(tokens.data) };
+    }
+  }
+
+  releaseDocumentSemanticTokens(_resultId: string | undefined): void {}
+}
+
+// #endregion
+
 // #region InlayHintsAdapter
 
 export interface ILanguageWorkerWithInlayHints {
   provideInlayHints(uri: string, range: lst.Range): Promise<lst.InlayHint[] | null>;
 }
 
+export function registerInlayHints<T extends ILanguageWorkerWithInlayHints>(
+  languageId: string,
+  worker: Monaco.editor.MonacoWebWorker<T>,
+) {
+  monaco.languages.registerInlayHintsProvider(languageId, new InlayHintsAdapter(worker));
+}
+
 export class InlayHintsAdapter<T extends ILanguageWorkerWithInlayHints> implements Monaco.languages.InlayHintsProvider {
   constructor(
     private readonly _worker: Monaco.editor.MonacoWebWorker<T>,
@@ -1357,6 +1504,141 @@ function convertPosition(position: lst.Position): Monaco.Position {
 
 // #endregion
 
+// #region CallHierarchyAdapter
+
+export interface ILanguageWorkerWithCallHierarchy {
+  prepareCallHierarchy(uri: string, position: lst.Position): Promise<lst.CallHierarchyItem[] | null>;
+  provideCallHierarchyIncomingCalls(item: lst.CallHierarchyItem): Promise<lst.CallHierarchyIncomingCall[] | null>;
+  provideCallHierarchyOutgoingCalls(item: lst.CallHierarchyItem): Promise<lst.CallHierarchyOutgoingCall[] | null>;
+}
+
+export function registerCallHierarchy<T extends ILanguageWorkerWithCallHierarchy>(
+  languageId: string,
+  worker: Monaco.editor.MonacoWebWorker<T>,
+) {
+  monaco.registerCallHierarchyProvider(languageId, new CallHierarchyAdapter(worker));
+}
+
+export class CallHierarchyAdapter<T extends ILanguageWorkerWithCallHierarchy> implements Monaco.CallHierarchyProvider {
+  constructor(
+    private readonly _worker: Monaco.editor.MonacoWebWorker<T>,
+  ) {}
+
+  async prepareCallHierarchy(
+    model: Monaco.editor.ITextModel,
+    position: Monaco.Position,
+    token: Monaco.CancellationToken,
+  ): Promise<Monaco.CallHierarchyItem[] | undefined> {
+    const worker = await lspRequest(() => this._worker.withSyncedResources([model.uri]), token);
+    const items = await lspRequest(() => worker?.prepareCallHierarchy(model.uri.toString(), fromPosition(position)), token);
+    if (items) {
+      return convertHierarchyItems(items);
+    }
+  }
+
+  async provideCallHierarchyIncomingCalls(
+    item: Monaco.CallHierarchyItem,
+    token: Monaco.CancellationToken,
+  ): Promise<Monaco.CallHierarchyIncomingCall[] | undefined> {
+    const worker = await lspRequest(() => this._worker.withSyncedResources([item.uri]), token);
+    const calls = await lspRequest(() => worker?.provideCallHierarchyIncomingCalls(item.data as lst.CallHierarchyItem), token);
+    if (calls) {
+      const items = await convertHierarchyItems(calls.map((call) => call.from));
+      return calls.map((call, i) => ({ from: items[i], fromRanges: call.fromRanges.map(convertRange) }));
+    }
+  }
+
+  async provideCallHierarchyOutgoingCalls(
+    item: Monaco.CallHierarchyItem,
+    token: Monaco.CancellationToken,
+  ): Promise<Monaco.CallHierarchyOutgoingCall[] | undefined> {
+    const worker = await lspRequest(() => this._worker.withSyncedResources([item.uri]), token);
+    const calls = await lspRequest(() => worker?.provideCallHierarchyOutgoingCalls(item.data as lst.CallHierarchyItem), token);
+    if (calls) {
+      const items = await convertHierarchyItems(calls.map((call) => call.to));
+      return calls.map((call, i) => ({ to: items[i], fromRanges: call.fromRanges.map(convertRange) }));
+    }
+  }
+}
+
+/** convert the hierarchy items, the original item is kept in the `data` field for the following requests. */
+async function convertHierarchyItems(
+  items: (lst.CallHierarchyItem | lst.TypeHierarchyItem)[],
+): Promise<(Monaco.CallHierarchyItem & Monaco.TypeHierarchyItem)[]> {
+  const result = items.map((item) => ({
+    name: item.name,
+    kind: convertSymbolKind(item.kind),
+    tags: item.tags,
+    detail: item.detail,
+    uri: monaco.Uri.parse(item.uri),
+    range: convertRange(item.range),
+    selectionRange: convertRange(item.selectionRange),
+    data: item,
+  }));
+  // the items may be declared in the http modules that are not open
+  await ensureHttpModels(result);
+  return result;
+}
+
+// #endregion
+
+// #region TypeHierarchyAdapter
+
+export interface ILanguageWorkerWithTypeHierarchy {
+  prepareTypeHierarchy(uri: string, position: lst.Position): Promise<lst.TypeHierarchyItem[] | null>;
+  provideTypeHierarchySupertypes(item: lst.TypeHierarchyItem): Promise<lst.TypeHierarchyItem[] | null>;
+  provideTypeHierarchySubtypes(item: lst.TypeHierarchyItem): Promise<lst.TypeHierarchyItem[] | null>;
+}
+
+export function registerTypeHierarchy<T extends ILanguageWorkerWithTypeHierarchy>(
+  languageId: string,
+  worker: Monaco.editor.MonacoWebWorker<T>,
+) {
+  monaco.registerTypeHierarchyProvider(languageId, new TypeHierarchyAdapter(worker));
+}
+
+export class TypeHierarchyAdapter<T extends ILanguageWorkerWithTypeHierarchy> implements Monaco.TypeHierarchyProvider {
+  constructor(
+    private readonly _worker: Monaco.editor.MonacoWebWorker<T>,
+  ) {}
+
+  async prepareTypeHierarchy(
+    model: Monaco.editor.ITextModel,
+    position: Monaco.Position,
+    token: Monaco.CancellationToken,
+  ): Promise<Monaco.TypeHierarchyItem[] | undefined> {
+    const worker = await lspRequest(() => this._worker.withSyncedResources([model.uri]), token);
+    const items = await lspRequest(() => worker?.prepareTypeHierarchy(model.uri.toString(), fromPosition(position)), token);
+    if (items) {
+      return convertHierarchyItems(items);
+    }
+  }
+
+  async provideTypeHierarchySupertypes(
+    item: Monaco.TypeHierarchyItem,
+    token: Monaco.CancellationToken,
+  ): Promise<Monaco.TypeHierarchyItem[] | undefined> {
+    const worker = await lspRequest(() => this._worker.withSyncedResources([item.uri]), token);
+    const items = await lspRequest(() => worker?.provideTypeHierarchySupertypes(item.data as lst.TypeHierarchyItem), token);
+    if (items) {
+      return convertHierarchyItems(items);
+    }
+  }
+
+  async provideTypeHierarchySubtypes(
+    item: Monaco.TypeHierarchyItem,
+    token: Monaco.CancellationToken,
+  ): Promise<Monaco.TypeHierarchyItem[] | undefined> {
+    const worker = await lspRequest(() => this._worker.withSyncedResources([item.uri]), token);
+    const items = await lspRequest(() => worker?.provideTypeHierarchySubtypes(item.data as lst.TypeHierarchyItem), token);
+    if (items) {
+      return convertHierarchyItems(items);
+    }
+  }
+}
+
+// #endregion
+
 // #region EmbeddedLanguages
 
 export interface ILanguageWorkerWithEmbeddedSupport {
@@ -59,6 +59,7 @@ export async function setup(
   client.registerCodeAction(languageId, worker);
   client.registerColorPresentation(languageId, worker);
   client.registerDocumentLinks(languageId, worker);
+  client.registerWorkspaceSymbols(worker);
 }
 
 function createWebWorker(): Worker {
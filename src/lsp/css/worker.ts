@@ -1,6 +1,6 @@
 import type monacoNS from "monaco-editor-core";
 import * as cssService from "vscode-css-languageservice";
-import { WorkerBase, type WorkerCreateData } from "../worker-base.ts";
+import { matchSymbolQuery, WorkerBase, type WorkerCreateData } from "../worker-base.ts";
 
 // ! external modules, don't remove the `.js` extension
 import { initializeWorker } from "../../editor-worker.js";
@@ -22,6 +22,7 @@ export interface CreateData extends WorkerCreateData {
 }
 
 export class CSSWorker extends WorkerBase<{}, cssService.Stylesheet> {
+  private _language: "css" | "less" | "scss";
   private _formatSettings: cssService.CSSFormatConfiguration;
   private _languageService: cssService.LanguageService;
 
@@ -40,6 +41,7 @@ export class CSSWorker extends WorkerBase<{}, cssService.Stylesheet> {
       useDefaultDataProvider: data?.useDefaultDataProvider,
       fileSystemProvider: this.getFileSystemProvider(),
     };
+    this._language = language;
     this._formatSettings = createData.format ?? {};
     this._languageService = language === "less"
       ? cssService.getLESSLanguageService(languageServiceOptions)
@@ -119,6 +121,19 @@ export class CSSWorker extends WorkerBase<{}, cssService.Stylesheet> {
     return this._languageService.findDocumentSymbols2(document, stylesheet);
   }
 
+  async findWorkspaceSymbols(query: string): Promise<cssService.SymbolInformation[]> {
+    const symbols: cssService.SymbolInformation[] = [];
+    for (const model of this.getMirrorModels()) {
+      const document = this.getTextDocument(model.uri.toString())!;
+      symbols.push(...this._languageService.findDocumentSymbols(document, this.getLanguageDocument(document)));
+    }
+    // the files that are not open are parsed without caching the stylesheets
+    for (const document of await this.readWorkspaceDocuments(["." + this._language])) {
+      symbols.push(...this._languageService.findDocumentSymbols(document, this._languageService.parseStylesheet(document)));
+    }
+    return symbols.filter((symbol) => matchSymbolQuery(query, symbol.name));
+  }
+
   async findDefinition(uri: string, position: cssService.Position): Promise<cssService.Location[] | null> {
     const document = this.getTextDocument(uri);
     if (!document) {
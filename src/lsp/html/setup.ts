@@ -82,6 +82,8 @@ export async function setup(
   client.registerAutoComplete(languageId, workerWithEmbeddedLanguages, [">", "/", "="]);
   client.registerColorPresentation(languageId, workerWithEmbeddedLanguages); // css color presentation
   client.registerDocumentLinks(languageId, workerWithEmbeddedLanguages);
+  client.registerLinkedEditingRange(languageId, htmlWorker);
+  client.registerWorkspaceSymbols(htmlWorker); // element ids, the embedded css/js are searched by their own workers
 
   // register code lens provider for import maps
   if (languageSettings?.importMapCodeLens ?? true) {
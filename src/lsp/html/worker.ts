@@ -1,7 +1,7 @@
 import type monacoNS from "monaco-editor-core";
 import * as htmlService from "vscode-html-languageservice";
 import { getDocumentRegions } from "./embedded-support.ts";
-import { WorkerBase, type WorkerCreateData } from "../worker-base.ts";
+import { matchSymbolQuery, WorkerBase, type WorkerCreateData } from "../worker-base.ts";
 
 // ! external modules, don't remove the `.js` extension
 import { initializeWorker } from "../../editor-worker.js";
@@ -244,6 +244,38 @@ export class HTMLWorker extends WorkerBase<{}, htmlService.HTMLDocument> {
     );
   }
 
+  async findWorkspaceSymbols(query: string): Promise<htmlService.SymbolInformation[]> {
+    const symbols: htmlService.SymbolInformation[] = [];
+    // collect the elements with `id` attribute
+    const collect = (document: htmlService.TextDocument, htmlDocument: htmlService.HTMLDocument) => {
+      const walk = (node: htmlService.Node) => {
+        const id = node.attributes?.id?.replace(/^["']|["']$/g, "");
+        if (id) {
+          symbols.push({
+            name: "#" + id,
+            kind: htmlService.SymbolKind.Field,
+            containerName: node.tag,
+            location: {
+              uri: document.uri,
+              range: { start: document.positionAt(node.start), end: document.positionAt(node.startTagEnd ?? node.end) },
+            },
+          });
+        }
+        node.children.forEach(walk);
+      };
+      htmlDocument.roots.forEach(walk);
+    };
+    for (const model of this.getMirrorModels()) {
+      const document = this.getTextDocument(model.uri.toString())!;
+      collect(document, this.getLanguageDocument(document));
+    }
+    // the files that are not open are parsed without caching the html documents
+    for (const document of await this.readWorkspaceDocuments([".html", ".htm"])) {
+      collect(document, this._languageService.parseHTMLDocument(document));
+    }
+    return symbols.filter((symbol) => matchSymbolQuery(query, symbol.name));
+  }
+
   async findDocumentHighlights(uri: string, position: htmlService.Position): Promise<htmlService.DocumentHighlight[]> {
     const document = this.getTextDocument(uri);
     if (!document) {
@@ -289,6 +321,23 @@ export class HTMLWorker extends WorkerBase<{}, htmlService.HTMLDocument> {
     return this._languageService.getSelectionRanges(document, positions);
   }
 
+  async getLinkedEditingRangeAtPosition(
+    uri: string,
+    position: htmlService.Position,
+  ): Promise<{ ranges: htmlService.Range[]; wordPattern?: string } | null> {
+    const document = this.getTextDocument(uri);
+    if (!document) {
+      return null;
+    }
+    const rs = getDocumentRegions(this._languageService, document);
+    if (rs.getEmbeddedLanguageAtPosition(position)) {
+      // the embedded css and javascript have no tags to rename
+      return null;
+    }
+    const ranges = this._languageService.findLinkedEditingRanges(document, position, this.getLanguageDocument(document));
+    return ranges ? { ranges } : null;
+  }
+
   async findDocumentColors(uri: string): Promise<htmlService.ColorInformation[] | null> {
     const document = this.getTextDocument(uri);
     if (!document) {
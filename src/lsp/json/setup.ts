@@ -73,6 +73,7 @@ export async function setup(
   client.registerBasicFeatures(languageId, worker, [" ", ":", '"'], workspace, languageSettings?.diagnosticsOptions);
   client.registerColorPresentation(languageId, worker);
   client.registerDocumentLinks(languageId, worker);
+  client.registerFormatOnType(languageId, worker, ["}", "]"]);
 
   // register code lens provider for import maps
   if (languageSettings?.importMapCodeLens ?? true) {
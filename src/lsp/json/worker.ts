@@ -96,6 +96,30 @@ export class JSONWorker extends WorkerBase<{}, jsonService.JSONDocument> {
     return this._languageService.format(document, range!, settings);
   }
 
+  async doFormatOnType(
+    uri: string,
+    position: jsonService.Position,
+    ch: string,
+    options: jsonService.FormattingOptions,
+  ): Promise<jsonService.TextEdit[] | null> {
+    const document = this.getTextDocument(uri);
+    if (!document) {
+      return null;
+    }
+    const end = document.offsetAt(position);
+    const lineStart = document.offsetAt({ line: position.line, character: 0 });
+    // format the closed object or array only if the bracket starts the line, to keep the inline objects as they are
+    if (document.getText().slice(lineStart, end - 1).trim() !== "") {
+      return null;
+    }
+    const node = this.getLanguageDocument(document).getNodeFromOffset(end - 1);
+    if (!node || node.type !== (ch === "}" ? "object" : "array") || node.offset + node.length !== end) {
+      return null;
+    }
+    const range = { start: document.positionAt(node.offset), end: position };
+    return this._languageService.format(document, range, { ...this._formatSettings, ...options });
+  }
+
   async findDocumentSymbols(uri: string): Promise<jsonService.DocumentSymbol[] | null> {
     const document = this.getTextDocument(uri);
     if (!document) {
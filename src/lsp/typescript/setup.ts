@@ -3,7 +3,7 @@ import type ts from "typescript";
 import type { FormattingOptions } from "vscode-languageserver-types";
 import type { Workspace } from "~/workspace";
 import type { DiagnosticsOptions } from "~/lsp/client.ts";
-import type { CreateData, Host, TypeScriptWorker, VersionedContent } from "./worker";
+import type { CreateData, Host, InlayHintsOptions, TypeScriptWorker, VersionedContent } from "./worker";
 import { ImportMap, type ImportMapRaw, parseFromHtml } from "@esm.sh/import-map";
 
 // ! external modules, don't remove the `.js` extension
@@ -16,11 +16,31 @@ type TypeScriptLanguageSettings = {
   importMap?: ImportMap;
   compilerOptions?: CompilerOptions;
   diagnosticsOptions?: DiagnosticsOptions;
+  inlayHints?: InlayHintsOptions;
 };
 
 // javascript and typescript share the same worker
 let worker: TSWorker | Promise<TSWorker> | null = null;
 
+// the semantic token types and modifiers in the order of the typescript classifications
+const semanticTokensLegend = {
+  tokenTypes: [
+    "class",
+    "enum",
+    "interface",
+    "namespace",
+    "typeParameter",
+    "type",
+    "parameter",
+    "variable",
+    "enumMember",
+    "property",
+    "function",
+    "method",
+  ],
+  tokenModifiers: ["declaration", "static", "async", "readonly", "defaultLibrary", "local"],
+};
+
 export async function setup(
   monaco: typeof monacoNS,
   languageId: string,
@@ -43,11 +63,18 @@ export async function setup(
   client.registerAutoComplete(languageId, worker, [">", "/"]);
   client.registerSignatureHelp(languageId, worker, ["(", ","]);
   client.registerCodeAction(languageId, worker);
-
-  // unimplemented features
-  // languages.registerOnTypeFormattingEditProvider(languageId, new lfs.FormatOnTypeAdapter(worker));
-  // languages.registerInlayHintsProvider(languageId, new lfs.InlayHintsAdapter(worker));
-  // languages.registerLinkedEditingRangeProvider(languageId, new lfs.LinkedEditingRangeAdapter(worker));
+  client.registerWorkspaceSymbols(worker);
+  client.registerFormatOnType(languageId, worker, ["}", ";", "\n"]);
+  client.registerSemanticTokens(languageId, worker, semanticTokensLegend);
+  client.registerCallHierarchy(languageId, worker);
+  client.registerTypeHierarchy(languageId, worker);
+  if (languageSettings?.inlayHints) {
+    client.registerInlayHints(languageId, worker);
+  }
+  if (languageId === "tsx" || languageId === "jsx") {
+    // rename the closing tag of a JSX element with the opening tag
+    client.registerLinkedEditingRange(languageId, worker);
+  }
 }
 
 /** Create the typescript worker. */
@@ -119,12 +146,14 @@ async function createWorker(
     },
     importMap,
     types: typesStore.types,
+    inlayHints: languageSettings?.inlayHints,
     fs: workspace ? await client.walkFS(workspace.fs, "/") : undefined,
   };
   const worker = monaco.editor.createWebWorker<TypeScriptWorker>({
     worker: getWorker(createData),
     keepIdleModels: true,
     host: {
+      ...client.createHost(workspace),
       openModel: async (uri: string): Promise<boolean> => {
         if (!workspace) {
           throw new Error("Workspace is undefined.");
@@ -9,9 +9,11 @@ import {
   DiagnosticTag,
   DocumentHighlightKind,
   FoldingRangeKind,
+  InlayHintKind,
   Range,
   SelectionRange,
   SymbolKind,
+  SymbolTag,
 } from "vscode-languageserver-types";
 import { TextDocument, WorkerBase, type WorkerCreateData } from "../worker-base.ts";
 
@@ -36,6 +38,14 @@ export interface CreateData extends WorkerCreateData {
   formatOptions: ts.FormatCodeSettings & Pick<ts.UserPreferences, "quotePreference">;
   importMap: ImportMapRaw;
   types: Record<string, VersionedContent>;
+  inlayHints?: InlayHintsOptions;
+}
+
+export interface InlayHintsOptions {
+  parameterNames?: "none" | "literals" | "all";
+  variableTypes?: boolean;
+  returnTypes?: boolean;
+  enumMemberValues?: boolean;
 }
 
 /** TypeScriptWorker removes all but the `fileName` property to avoid serializing circular JSON structures. */
@@ -55,6 +65,7 @@ export class TypeScriptWorker extends WorkerBase<Host> implements ts.LanguageSer
   #compilerOptions: ts.CompilerOptions;
   #languageService: ts.LanguageService;
   #formatOptions?: CreateData["formatOptions"];
+  #inlayHintsPreferences: ts.UserPreferences;
   #importMap: ImportMap;
   #importMapVersion: number;
   #types: Record<string, VersionedContent>;
@@ -69,6 +80,8 @@ export class TypeScriptWorker extends WorkerBase<Host> implements ts.LanguageSer
   #openPromises = new Map<string, Promise<void>>();
   #fetchPromises = new Map<string, Promise<void>>();
   #httpDocumentCache = new Map<string, TextDocument>();
+  #workspaceScripts = new Map<string, TextDocument>();
+  #workspaceLanguageService?: ts.LanguageService;
 
   constructor(ctx: monacoNS.worker.IWorkerContext<Host>, createData: CreateData) {
     super(ctx, createData);
@@ -78,6 +91,7 @@ export class TypeScriptWorker extends WorkerBase<Host> implements ts.LanguageSer
     this.#importMapVersion = 0;
     this.#types = createData.types;
     this.#formatOptions = createData.formatOptions;
+    this.#inlayHintsPreferences = toTsInlayHintsPreferences(createData.inlayHints ?? {});
     this.#updateJsxImportSource();
   }
 
@@ -710,6 +724,24 @@ export class TypeScriptWorker extends WorkerBase<Host> implements ts.LanguageSer
     }));
   }
 
+  async doFormatOnType(
+    uri: string,
+    position: lst.Position,
+    ch: string,
+    formatOptions: lst.FormattingOptions,
+  ): Promise<lst.TextEdit[] | null> {
+    const document = this.#getTextDocument(uri);
+    if (!document) {
+      return null;
+    }
+    const formattingOptions = this.#mergeFormatOptions(toTsFormatOptions(formatOptions));
+    const edits = this.#languageService.getFormattingEditsAfterKeystroke(uri, document.offsetAt(position), ch, formattingOptions);
+    return edits.map(({ span, newText }) => ({
+      range: createRangeFromDocumentSpan(document, span),
+      newText,
+    }));
+  }
+
   async findDocumentSymbols(uri: string): Promise<lst.DocumentSymbol[] | null> {
     const document = this.#getTextDocument(uri);
     if (!document) {
@@ -732,6 +764,32 @@ export class TypeScriptWorker extends WorkerBase<Host> implements ts.LanguageSer
     return root.childItems?.map((item) => toSymbol(item)) ?? null;
   }
 
+  async findWorkspaceSymbols(query: string): Promise<lst.SymbolInformation[]> {
+    this.#workspaceScripts = new Map(
+      (await this.readWorkspaceDocuments(SCRIPT_EXTENSIONS)).map((document) => [document.uri, document]),
+    );
+    const items = [
+      ...this.#languageService.getNavigateToItems(query, MAX_WORKSPACE_SYMBOLS, undefined, true),
+      ...this.#getWorkspaceLanguageService().getNavigateToItems(query, MAX_WORKSPACE_SYMBOLS, undefined, true),
+    ];
+    const symbols: lst.SymbolInformation[] = [];
+    for (const item of items) {
+      if (!item.fileName.startsWith("file:///") || item.fileName.startsWith("file:///node_modules/")) {
+        continue;
+      }
+      const document = this.#getTextDocument(item.fileName) ?? this.#workspaceScripts.get(item.fileName);
+      if (document) {
+        symbols.push({
+          name: item.name,
+          kind: convertTsSymbolKind(item.kind),
+          containerName: item.containerName || undefined,
+          location: { uri: item.fileName, range: createRangeFromDocumentSpan(document, item.textSpan) },
+        });
+      }
+    }
+    return symbols;
+  }
+
   async findDefinition(uri: string, position: lst.Position): Promise<lst.LocationLink[] | null> {
     const document = this.#getTextDocument(uri);
     if (!document) {
@@ -849,6 +907,188 @@ export class TypeScriptWorker extends WorkerBase<Host> implements ts.LanguageSer
     });
   }
 
+  async getLinkedEditingRangeAtPosition(
+    uri: string,
+    position: lst.Position,
+  ): Promise<{ ranges: lst.Range[]; wordPattern?: string } | null> {
+    const document = this.#getTextDocument(uri);
+    if (!document) {
+      return null;
+    }
+    const info = this.#languageService.getLinkedEditingRangeAtPosition(uri, document.offsetAt(position));
+    if (!info) {
+      return null;
+    }
+    return {
+      ranges: info.ranges.map((span) => createRangeFromDocumentSpan(document, span)),
+      wordPattern: info.wordPattern,
+    };
+  }
+
+  async getDocumentSemanticTokens(uri: string): Promise<lst.SemanticTokens | null> {
+    const document = this.#getTextDocument(uri);
+    if (!document) {
+      return null;
+    }
+    const { spans } = this.#languageService.getEncodedSemanticClassifications(
+      uri,
+      { start: 0, length: document.getText().length },
+      ts.SemanticClassificationFormat.TwentyTwenty,
+    );
+    // encode the tokens as the LSP semantic tokens, the positions are relative to the previous token
+    const data: number[] = [];
+    let prevLine = 0;
+    let prevCharacter = 0;
+    for (let i = 0; i < spans.length; i += 3) {
+      const [offset, length, classification] = [spans[i], spans[i + 1], spans[i + 2]];
+      // the classification is `(tokenType + 1) << 8 | tokenModifiers`
+      const tokenType = (classification >> 8) - 1;
+      if (tokenType < 0) {
+        continue;
+      }
+      const { line, character } = document.positionAt(offset);
+      data.push(line - prevLine, line === prevLine ? character - prevCharacter : character, length, tokenType, classification & 0xff);
+      prevLine = line;
+      prevCharacter = character;
+    }
+    return { data };
+  }
+
+  async provideInlayHints(uri: string, range: lst.Range): Promise<lst.InlayHint[] | null> {
+    const document = this.#getTextDocument(uri);
+    if (!document) {
+      return null;
+    }
+    const start = document.offsetAt(range.start);
+    const span = { start, length: document.offsetAt(range.end) - start };
+    const hints = this.#languageService.provideInlayHints(uri, span, this.#inlayHintsPreferences);
+    return hints.map((hint) => ({
+      // the display parts link the labels to their definitions, e.g. the parameter declarations
+      label: hint.displayParts?.map((part): lst.InlayHintLabelPart => {
+        const targetDocument = part.file && part.span ? this.#getTextDocument(part.file) : null;
+        return {
+          value: part.text,
+          location: targetDocument
+            ? { uri: part.file!, range: createRangeFromDocumentSpan(targetDocument, part.span!) }
+            : undefined,
+        };
+      }) ?? hint.text,
+      position: document.positionAt(hint.position),
+      kind: hint.kind === ts.InlayHintKind.Parameter
+        ? InlayHintKind.Parameter
+        : hint.kind === ts.InlayHintKind.Type
+        ? InlayHintKind.Type
+        : undefined,
+      paddingLeft: hint.whitespaceBefore,
+      paddingRight: hint.whitespaceAfter,
+    }));
+  }
+
+  async prepareCallHierarchy(uri: string, position: lst.Position): Promise<lst.CallHierarchyItem[] | null> {
+    const document = this.#getTextDocument(uri);
+    if (!document) {
+      return null;
+    }
+    const items = this.#languageService.prepareCallHierarchy(uri, document.offsetAt(position));
+    if (!items) {
+      return null;
+    }
+    return [items].flat().map((item) => this.#convertCallHierarchyItem(item)).filter((item) => item !== null);
+  }
+
+  async provideCallHierarchyIncomingCalls(item: lst.CallHierarchyItem): Promise<lst.CallHierarchyIncomingCall[] | null> {
+    const document = this.#getTextDocument(item.uri);
+    if (!document) {
+      return null;
+    }
+    const calls = this.#languageService.provideCallHierarchyIncomingCalls(item.uri, document.offsetAt(item.selectionRange.start));
+    const result: lst.CallHierarchyIncomingCall[] = [];
+    for (const call of calls) {
+      const from = this.#convertCallHierarchyItem(call.from);
+      const fromDocument = this.#getTextDocument(call.from.file);
+      if (from && fromDocument) {
+        result.push({ from, fromRanges: call.fromSpans.map((span) => createRangeFromDocumentSpan(fromDocument, span)) });
+      }
+    }
+    return result;
+  }
+
+  async provideCallHierarchyOutgoingCalls(item: lst.CallHierarchyItem): Promise<lst.CallHierarchyOutgoingCall[] | null> {
+    const document = this.#getTextDocument(item.uri);
+    if (!document) {
+      return null;
+    }
+    const calls = this.#languageService.provideCallHierarchyOutgoingCalls(item.uri, document.offsetAt(item.selectionRange.start));
+    const result: lst.CallHierarchyOutgoingCall[] = [];
+    for (const call of calls) {
+      const to = this.#convertCallHierarchyItem(call.to);
+      if (to) {
+        // the spans of the outgoing calls are in the file of the caller
+        result.push({ to, fromRanges: call.fromSpans.map((span) => createRangeFromDocumentSpan(document, span)) });
+      }
+    }
+    return result;
+  }
+
+  // the language service doesn't provide the type hierarchy, the types are resolved from the heritage clauses instead
+  async prepareTypeHierarchy(uri: string, position: lst.Position): Promise<lst.TypeHierarchyItem[] | null> {
+    const document = this.#getTextDocument(uri);
+    const program = this.#languageService.getProgram();
+    const sourceFile = program?.getSourceFile(uri);
+    if (!document || !program || !sourceFile) {
+      return null;
+    }
+    const node = findNodeAtOffset(sourceFile, document.offsetAt(position));
+    if (!node.parent) {
+      // the position is not in any node of the file, e.g. the whitespace between the statements
+      return [];
+    }
+    if (isTypeHierarchyDeclaration(node.parent) && node.parent.name === node) {
+      return [this.#convertTypeHierarchyItem(node.parent)].filter((item) => item !== null);
+    }
+    return this.#getTypeHierarchyItemsOfSymbol(program.getTypeChecker(), node);
+  }
+
+  async provideTypeHierarchySupertypes(item: lst.TypeHierarchyItem): Promise<lst.TypeHierarchyItem[] | null> {
+    const program = this.#languageService.getProgram();
+    const declaration = this.#getTypeHierarchyDeclaration(item);
+    if (!program || !declaration) {
+      return null;
+    }
+    const checker = program.getTypeChecker();
+    return declaration.heritageClauses?.flatMap((clause) =>
+      clause.types.flatMap((type) => this.#getTypeHierarchyItemsOfSymbol(checker, type.expression))
+    ) ?? [];
+  }
+
+  async provideTypeHierarchySubtypes(item: lst.TypeHierarchyItem): Promise<lst.TypeHierarchyItem[] | null> {
+    const program = this.#languageService.getProgram();
+    const declaration = this.#getTypeHierarchyDeclaration(item);
+    const document = this.#getTextDocument(item.uri);
+    if (!program || !declaration || !document) {
+      return null;
+    }
+    // the subtypes are the declarations that reference the type in their heritage clauses
+    const subtypes = new Set<TypeHierarchyDeclaration>();
+    const referencedSymbols = this.#languageService.findReferences(item.uri, document.offsetAt(item.selectionRange.start));
+    for (const { references } of referencedSymbols ?? []) {
+      for (const { fileName, textSpan, isDefinition } of references) {
+        const sourceFile = program.getSourceFile(fileName);
+        if (isDefinition || !sourceFile) {
+          continue;
+        }
+        let node = findNodeAtOffset(sourceFile, textSpan.start);
+        while (ts.isPropertyAccessExpression(node.parent) && node.parent.name === node) {
+          node = node.parent;
+        }
+        if (ts.isExpressionWithTypeArguments(node.parent) && ts.isHeritageClause(node.parent.parent)) {
+          subtypes.add(node.parent.parent.parent);
+        }
+      }
+    }
+    return [...subtypes].map((subtype) => this.#convertTypeHierarchyItem(subtype)).filter((item) => item !== null);
+  }
+
   // #endregion
 
   // #region public methods used by the host
@@ -1146,6 +1386,26 @@ export class TypeScriptWorker extends WorkerBase<Host> implements ts.LanguageSer
       ?? this.getModel(fileName)?.getValue();
   }
 
+  /**
+   * get the language service of the workspace scripts that are not open, the scripts are only parsed
+   * without resolving the imports, since resolving a relative import opens the module as a model.
+   */
+  #getWorkspaceLanguageService(): ts.LanguageService {
+    return this.#workspaceLanguageService ??= ts.createLanguageService({
+      getCompilationSettings: () => ({ ...this.#compilerOptions, noLib: true, noResolve: true, types: [] }),
+      getScriptFileNames: () => [...this.#workspaceScripts.keys()],
+      getScriptVersion: (fileName) => String(this.#workspaceScripts.get(fileName)?.version ?? 0),
+      getScriptSnapshot: (fileName) => {
+        const document = this.#workspaceScripts.get(fileName);
+        return document ? ts.ScriptSnapshot.fromString(document.getText()) : undefined;
+      },
+      getCurrentDirectory: () => "/",
+      getDefaultLibFileName: () => "lib.d.ts",
+      fileExists: (fileName) => this.#workspaceScripts.has(fileName),
+      readFile: (fileName) => this.#workspaceScripts.get(fileName)?.getText(),
+    });
+  }
+
   #getTextDocument(uri: string): TextDocument | null {
     const doc = this.getTextDocument(uri);
     if (doc) {
@@ -1281,6 +1541,70 @@ export class TypeScriptWorker extends WorkerBase<Host> implements ts.LanguageSer
     }
   }
 
+  #convertCallHierarchyItem(item: ts.CallHierarchyItem): lst.CallHierarchyItem | null {
+    const document = this.#getTextDocument(item.file);
+    if (!document) {
+      return null;
+    }
+    // the calls at the top level of a module are made by the script item, it's named by the file
+    const isScript = item.kind === ts.ScriptElementKind.scriptElement;
+    const { pathname } = new URL(item.file);
+    return {
+      name: isScript ? decodeURIComponent(pathname.slice(pathname.lastIndexOf("/") + 1)) : item.name,
+      kind: convertTsSymbolKind(item.kind),
+      tags: item.kindModifiers?.split(",").includes("deprecated") ? [SymbolTag.Deprecated] : undefined,
+      detail: isScript ? decodeURIComponent(pathname.slice(0, pathname.lastIndexOf("/") + 1)) : item.containerName,
+      uri: item.file,
+      range: createRangeFromDocumentSpan(document, item.span),
+      selectionRange: createRangeFromDocumentSpan(document, item.selectionSpan),
+    };
+  }
+
+  #convertTypeHierarchyItem(declaration: TypeHierarchyDeclaration): lst.TypeHierarchyItem | null {
+    const sourceFile = declaration.getSourceFile();
+    const document = this.#getTextDocument(sourceFile.fileName);
+    if (!document) {
+      return null;
+    }
+    const start = declaration.getStart(sourceFile);
+    const nameSpan = declaration.name
+      ? { start: declaration.name.getStart(sourceFile), length: declaration.name.getWidth(sourceFile) }
+      : { start, length: 0 };
+    // the class expression is named by the variable, e.g. `const Foo = class {}`
+    const { parent } = declaration;
+    const variableName = ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name) ? parent.name.text : undefined;
+    return {
+      name: declaration.name?.text ?? variableName ?? "default",
+      kind: ts.isInterfaceDeclaration(declaration) ? SymbolKind.Interface : SymbolKind.Class,
+      uri: sourceFile.fileName,
+      range: createRangeFromDocumentSpan(document, { start, length: declaration.getEnd() - start }),
+      selectionRange: createRangeFromDocumentSpan(document, nameSpan),
+    };
+  }
+
+  #getTypeHierarchyDeclaration(item: lst.TypeHierarchyItem): TypeHierarchyDeclaration | undefined {
+    const document = this.#getTextDocument(item.uri);
+    const sourceFile = this.#languageService.getProgram()?.getSourceFile(item.uri);
+    if (document && sourceFile) {
+      let node: ts.Node | undefined = findNodeAtOffset(sourceFile, document.offsetAt(item.selectionRange.start));
+      while (node && !isTypeHierarchyDeclaration(node)) {
+        node = node.parent;
+      }
+      return node;
+    }
+  }
+
+  #getTypeHierarchyItemsOfSymbol(checker: ts.TypeChecker, node: ts.Node): lst.TypeHierarchyItem[] {
+    let symbol = checker.getSymbolAtLocation(node);
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = checker.getAliasedSymbol(symbol);
+    }
+    return (symbol?.declarations ?? [])
+      .filter(isTypeHierarchyDeclaration)
+      .map((declaration) => this.#convertTypeHierarchyItem(declaration))
+      .filter((item) => item !== null);
+  }
+
   #mergeFormatOptions(formatOptions: ts.FormatCodeSettings): ts.FormatCodeSettings {
     return { ...this.#formatOptions, ...formatOptions };
   }
@@ -1332,6 +1656,9 @@ function isEsmshHost(hostname: string): boolean {
   return hostname === "esm.sh" || hostname.endsWith(".esm.sh");
 }
 
+const SCRIPT_EXTENSIONS = [".ts", ".mts", ".cts", ".tsx", ".js", ".mjs", ".cjs", ".jsx"];
+const MAX_WORKSPACE_SYMBOLS = 500;
+
 const ESM_TARGETS = new Set([
   "es2015",
   "es2016",
@@ -1420,6 +1747,26 @@ function pathToUrl(path: string): URL {
   return new URL(path, "file:///");
 }
 
+type TypeHierarchyDeclaration = ts.ClassLikeDeclaration | ts.InterfaceDeclaration;
+
+function isTypeHierarchyDeclaration(node: ts.Node): node is TypeHierarchyDeclaration {
+  return ts.isClassLike(node) || ts.isInterfaceDeclaration(node);
+}
+
+/** find the innermost node that contains the offset. */
+function findNodeAtOffset(sourceFile: ts.SourceFile, offset: number): ts.Node {
+  let node: ts.Node = sourceFile;
+  const visit = (child: ts.Node): true | undefined => {
+    if (child.getStart(sourceFile) <= offset && offset <= child.getEnd()) {
+      node = child;
+      ts.forEachChild(child, visit);
+      return true;
+    }
+  };
+  ts.forEachChild(sourceFile, visit);
+  return node;
+}
+
 function createRangeFromDocumentSpan(document: TextDocument, span: { start?: number; length?: number }): lst.Range {
   if (typeof span.start === "undefined") {
     const pos = document.positionAt(0);
@@ -1570,6 +1917,19 @@ function toTsSignatureHelpTriggerReason(context: monacoNS.languages.SignatureHel
   }
 }
 
+function toTsInlayHintsPreferences(options: InlayHintsOptions): ts.UserPreferences {
+  const { parameterNames = "none", variableTypes = false, returnTypes = false, enumMemberValues = false } = options;
+  return {
+    includeInlayParameterNameHints: parameterNames,
+    includeInlayParameterNameHintsWhenArgumentMatchesName: false,
+    includeInlayVariableTypeHints: variableTypes,
+    includeInlayVariableTypeHintsWhenTypeMatchesName: false,
+    includeInlayFunctionLikeReturnTypeHints: returnTypes,
+    includeInlayEnumMemberValueHints: enumMemberValues,
+    interactiveInlayHints: true,
+  };
+}
+
 function toTsFormatOptions({ tabSize, trimTrailingWhitespace, insertSpaces }: lst.FormattingOptions): ts.FormatCodeSettings {
   return {
     tabSize,
@@ -10,6 +10,8 @@ export class WorkerBase<Host = undefined, LanguageDocument = undefined> {
   #ctx: monacoNS.worker.IWorkerContext<Host>;
   #fs?: Map<string, FileSystemEntryType>;
   #documentCache = new Map<string, [number, TextDocument, LanguageDocument | undefined]>();
+  #workspaceDocuments = new Map<string, TextDocument>();
+  #workspaceDocumentVersion = 0;
   #createLanguageDocument?: (document: TextDocument) => LanguageDocument;
 
   constructor(
@@ -83,6 +85,36 @@ export class WorkerBase<Host = undefined, LanguageDocument = undefined> {
     return document;
   }
 
+  /**
+   * read the documents of the workspace files with the extensions that are not open as models,
+   * the documents are cached until the files are modified or removed.
+   */
+  async readWorkspaceDocuments(extensions: readonly string[]): Promise<TextDocument[]> {
+    const documents: TextDocument[] = [];
+    if (!this.#fs) {
+      return documents;
+    }
+    for (const [uri, type] of this.#fs) {
+      if (type !== 1 || !extensions.some((ext) => uri.endsWith(ext)) || this.hasModel(uri)) {
+        continue;
+      }
+      let document = this.#workspaceDocuments.get(uri);
+      if (!document) {
+        try {
+          // @ts-expect-error `fs_getContent` is defined in host
+          const content: string = await this.#ctx.host.fs_getContent(uri);
+          document = TextDocument.create(uri, "-", ++this.#workspaceDocumentVersion, content);
+          this.#workspaceDocuments.set(uri, document);
+        } catch (error) {
+          // the file may be removed
+          continue;
+        }
+      }
+      documents.push(document);
+    }
+    return documents;
+  }
+
   getLanguageDocument(document: TextDocument): LanguageDocument {
     const { uri, version } = document;
     const cached = this.#documentCache.get(uri);
@@ -154,21 +186,37 @@ export class WorkerBase<Host = undefined, LanguageDocument = undefined> {
     this.#documentCache.delete(uri);
   }
 
-  async fsNotify(kind: "create" | "remove", path: string, type?: number): Promise<void> {
+  async fsNotify(kind: "create" | "modify" | "remove", path: string, type?: number): Promise<void> {
     const fs = this.#fs ?? (this.#fs = new Map());
+    // the watcher of the workspace file system notifies the pathname
+    const uri = path.startsWith("file://") ? path : "file://" + path;
+    this.#workspaceDocuments.delete(uri);
     if (kind === "create") {
       if (type) {
-        fs.set(path, type);
+        fs.set(uri, type);
       }
     } else if (kind === "remove") {
-      if (fs.get(path) === 1) {
-        this.#documentCache.delete(path);
+      if (fs.get(uri) === 1) {
+        this.#documentCache.delete(uri);
       }
-      fs.delete(path);
+      fs.delete(uri);
     }
   }
 
   // #endregion
 }
 
+/** check if the characters of the query appear in the symbol name in order, case-insensitive. */
+export function matchSymbolQuery(query: string, name: string): boolean {
+  const lowerName = name.toLowerCase();
+  let index = 0;
+  for (const char of query.toLowerCase()) {
+    index = lowerName.indexOf(char, index) + 1;
+    if (index === 0) {
+      return false;
+    }
+  }
+  return true;
+}
+
 export { TextDocument };
@@ -0,0 +1,96 @@
+/** Split the text into lines, the line breaks are kept. */
+function splitLines(text: string): string[] {
+  return text.split(/(?<=\n)/).filter(Boolean);
+}
+
+/** Find the longest common subsequence of two lines, returns the matched index of `b` for each line of `a`, or -1. */
+function lcs(a: string[], b: string[]): number[] {
+  const matches = new Array<number>(a.length).fill(-1);
+  // skip the common prefix and suffix
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    matches[start] = start;
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    matches[--endA] = --endB;
+  }
+  const n = endA - start;
+  const m = endB - start;
+  const table = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * (m + 1) + j] = a[start + i] === b[start + j]
+        ? table[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(table[(i + 1) * (m + 1) + j], table[i * (m + 1) + j + 1]);
+    }
+  }
+  for (let i = 0, j = 0; i < n && j < m;) {
+    if (a[start + i] === b[start + j]) {
+      matches[start + i] = start + j;
+      i++;
+      j++;
+    } else if (table[(i + 1) * (m + 1) + j] >= table[i * (m + 1) + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+function linesEqual(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+function conflictLines(lines: string[]): string[] {
+  const last = lines.at(-1);
+  return last !== undefined && !last.endsWith("\n") ? [...lines.slice(0, -1), last + "\n"] : lines;
+}
+
+/**
+ * Merge the changes of `ours` and `theirs` that are made on the `base` text (diff3).
+ * The conflicting changes are wrapped with git style conflict markers.
+ */
+export function merge3(base: string, ours: string, theirs: string): { content: string; conflicts: number } {
+  const baseLines = splitLines(base);
+  const ourLines = splitLines(ours);
+  const theirLines = splitLines(theirs);
+  const ourMatches = lcs(baseLines, ourLines);
+  const theirMatches = lcs(baseLines, theirLines);
+  const result: string[] = [];
+  let conflicts = 0;
+  let i = 0;
+  let a = 0;
+  let b = 0;
+  while (true) {
+    // find the next line that is unchanged in both sides
+    let k = i;
+    while (k < baseLines.length && (ourMatches[k] === -1 || theirMatches[k] === -1)) {
+      k++;
+    }
+    const endA = k < baseLines.length ? ourMatches[k] : ourLines.length;
+    const endB = k < baseLines.length ? theirMatches[k] : theirLines.length;
+    const baseChunk = baseLines.slice(i, k);
+    const ourChunk = ourLines.slice(a, endA);
+    const theirChunk = theirLines.slice(b, endB);
+    if (linesEqual(ourChunk, baseChunk) || linesEqual(ourChunk, theirChunk)) {
+      result.push(...theirChunk);
+    } else if (linesEqual(theirChunk, baseChunk)) {
+      result.push(...ourChunk);
+    } else {
+      conflicts++;
+      result.push("<<<<<<< yours\n", ...conflictLines(ourChunk), "=======\n", ...conflictLines(theirChunk), ">>>>>>> template\n");
+    }
+    if (k === baseLines.length) {
+      break;
+    }
+    result.push(baseLines[k]);
+    i = k + 1;
+    a = endA + 1;
+    b = endB + 1;
+  }
+  return { content: result.join(""), conflicts };
+}
@@ -0,0 +1,156 @@
+import type { WorkspaceDiagnostic } from "../types/workspace.d.ts";
+import type { Workspace } from "./workspace.ts";
+
+// ! external modules, don't remove the `.js` extension
+import { debunce } from "./util.js";
+
+// the values of `monaco.MarkerSeverity`
+const severities: Record<number, [label: string, icon: string, color: string]> = {
+  8: ["error", "⊗", "#e51400"],
+  4: ["warning", "⚠", "#bf8803"],
+  2: ["info", "ⓘ", "#1a85ff"],
+};
+
+const setStyle = (el: HTMLElement, style: Partial<CSSStyleDeclaration>) => Object.assign(el.style, style);
+
+/** Define the `<monaco-problems>` custom element that lists the diagnostics of the workspace files. */
+export function defineProblems(workspace: Workspace) {
+  if (customElements.get("monaco-problems")) {
+    return;
+  }
+  customElements.define(
+    "monaco-problems",
+    class extends HTMLElement {
+      #headerEl = document.createElement("div");
+      #listEl = document.createElement("div");
+      #collapsed = new Set<string>();
+      #diagnostics: WorkspaceDiagnostic[] = [];
+      #dispose?: () => void;
+
+      constructor() {
+        super();
+        const headerEl = this.#headerEl;
+        const listEl = this.#listEl;
+        headerEl.className = "monaco-problems-header";
+        listEl.className = "monaco-problems-list";
+        listEl.role = "tree";
+        setStyle(headerEl, { padding: "4px 8px", opacity: "0.8" });
+        setStyle(listEl, { flex: "1", overflow: "auto" });
+        listEl.addEventListener("click", (e) => this.#onClick(e));
+      }
+
+      connectedCallback() {
+        setStyle(this, { display: "flex", flexDirection: "column", overflow: "hidden", userSelect: "none", fontSize: "13px" });
+        this.replaceChildren(this.#headerEl, this.#listEl);
+        this.#dispose = workspace.diagnostics.onDidChange(debunce(() => this.#render(), 100));
+        this.#render();
+      }
+
+      disconnectedCallback() {
+        this.#dispose?.();
+        this.#dispose = undefined;
+      }
+
+      #onClick(e: MouseEvent) {
+        const itemEl = (e.target as HTMLElement).closest<HTMLElement>(".monaco-problems-item");
+        if (!itemEl) {
+          return;
+        }
+        const url = itemEl.dataset.url!;
+        if (itemEl.dataset.index === undefined) {
+          if (!this.#collapsed.delete(url)) {
+            this.#collapsed.add(url);
+          }
+          this.#render();
+        } else {
+          this.#reveal(this.#diagnostics[Number(itemEl.dataset.index)]);
+        }
+      }
+
+      /** open the file of the diagnostic, then select the range of the diagnostic. */
+      async #reveal(diagnostic: WorkspaceDiagnostic) {
+        const { url, startLineNumber, startColumn, endLineNumber, endColumn } = diagnostic;
+        const model = await workspace.openTextDocument(url);
+        const editor = workspace.editorGroups.find((group) => group.editor?.getModel() === model)?.editor;
+        if (editor) {
+          const range = { startLineNumber, startColumn, endLineNumber, endColumn };
+          editor.setSelection(range);
+          editor.revealRangeInCenterIfOutsideViewport(range);
+          editor.focus();
+        }
+      }
+
+      #createFileItem(url: string, count: number): HTMLElement {
+        const { pathname } = new URL(url);
+        const collapsed = this.#collapsed.has(url);
+        const itemEl = document.createElement("div");
+        const iconEl = document.createElement("span");
+        const nameEl = document.createElement("span");
+        const dirEl = document.createElement("span");
+        const countEl = document.createElement("span");
+        itemEl.className = "monaco-problems-item monaco-problems-file";
+        itemEl.role = "treeitem";
+        itemEl.title = pathname;
+        itemEl.dataset.url = url;
+        itemEl.ariaExpanded = String(!collapsed);
+        iconEl.textContent = collapsed ? "▸" : "▾";
+        nameEl.textContent = decodeURIComponent(pathname.slice(pathname.lastIndexOf("/") + 1));
+        dirEl.textContent = decodeURIComponent(pathname.slice(1, pathname.lastIndexOf("/")));
+        countEl.textContent = String(count);
+        setStyle(itemEl, { display: "flex", alignItems: "center", gap: "4px", height: "22px", padding: "0 8px", cursor: "pointer" });
+        setStyle(iconEl, { display: "inline-block", width: "12px", flexShrink: "0", textAlign: "center" });
+        setStyle(nameEl, { whiteSpace: "nowrap" });
+        setStyle(dirEl, { flex: "1", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap", opacity: "0.6" });
+        setStyle(countEl, { padding: "0 6px", borderRadius: "9px", background: "rgba(128,128,128,0.3)" });
+        itemEl.append(iconEl, nameEl, dirEl, countEl);
+        return itemEl;
+      }
+
+      #createDiagnosticItem(diagnostic: WorkspaceDiagnostic, index: number): HTMLElement {
+        const { url, severity, message, source, code, startLineNumber, startColumn } = diagnostic;
+        const [label, icon, color] = severities[severity] ?? severities[2];
+        const codeValue = typeof code === "object" ? code.value : code;
+        const itemEl = document.createElement("div");
+        const iconEl = document.createElement("span");
+        const messageEl = document.createElement("span");
+        const sourceEl = document.createElement("span");
+        itemEl.className = "monaco-problems-item monaco-problems-" + label;
+        itemEl.role = "treeitem";
+        itemEl.title = message;
+        itemEl.dataset.url = url;
+        itemEl.dataset.index = String(index);
+        iconEl.textContent = icon;
+        iconEl.ariaLabel = label;
+        messageEl.textContent = message.split("\n")[0];
+        sourceEl.textContent = (source ?? "") + (codeValue ? "(" + codeValue + ")" : "") + ` [Ln ${startLineNumber}, Col ${startColumn}]`;
+        setStyle(itemEl, { display: "flex", alignItems: "center", gap: "6px", height: "22px", padding: "0 8px 0 28px", cursor: "pointer" });
+        setStyle(iconEl, { flexShrink: "0", color });
+        setStyle(messageEl, { overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" });
+        setStyle(sourceEl, { flexShrink: "0", whiteSpace: "nowrap", opacity: "0.6" });
+        itemEl.append(iconEl, messageEl, sourceEl);
+        return itemEl;
+      }
+
+      #render() {
+        // the hints (e.g. the unused variables) are rendered in the editor only
+        const diagnostics = workspace.diagnostics.getAll().filter((diagnostic) => diagnostic.severity > 1);
+        const byFile = Map.groupBy(diagnostics.map((diagnostic, index) => [diagnostic, index] as const), ([{ url }]) => url);
+        const children: HTMLElement[] = [];
+        for (const [url, items] of byFile) {
+          children.push(this.#createFileItem(url, items.length));
+          if (!this.#collapsed.has(url)) {
+            for (const [diagnostic, index] of items) {
+              children.push(this.#createDiagnosticItem(diagnostic, index));
+            }
+          }
+        }
+        const count = (severity: number) => diagnostics.filter((diagnostic) => diagnostic.severity === severity).length;
+        this.#diagnostics = diagnostics;
+        this.#headerEl.textContent = diagnostics.length > 0
+          ? `${count(8)} errors, ${count(4)} warnings, ${count(2)} infos`
+          : "No problems have been detected in the workspace.";
+        this.#listEl.replaceChildren(...children);
+      }
+    },
+  );
+}
@@ -10,11 +10,25 @@ const LINE_NUMBERS_COLOR = "rgba(222, 220, 213, 0.31)";
 const MINIMUM_LINE_HEIGHT = 8;
 const MINIMUM_MAX_DIGIT_WIDTH = 5;
 
+export const TAB_BAR_HEIGHT = 35;
+
 export type RenderInput = string | { filename: string; code: string; version?: number };
 export interface RenderOptions extends editor.IStandaloneEditorConstructionOptions {
   fontDigitWidth?: number;
   userAgent?: string;
   shiki?: Omit<ShikiInitOptions, "defaultTheme" | "theme">;
+  /** the open files shown in the tab bar above the editor. */
+  tabs?: string[];
+}
+
+export interface TabBarOptions {
+  /** the open files, in the tab order. */
+  files: readonly string[];
+  /** the file of the active tab. */
+  current?: string;
+  /** the files that have unsaved changes. */
+  dirty?: readonly string[];
+  theme?: string;
 }
 
 /** Renders a mock monaco editor. */
@@ -53,6 +67,7 @@ export function render(highlighter: HighlighterCore, input: RenderInput, options
     scrollbar,
     wordWrap,
     maxTokenizationLineLength = 20000,
+    tabs,
   } = options;
   const fontFamily = [
     options.fontFamily ? normalizeFontFamily(options.fontFamily) : null,
@@ -114,7 +129,7 @@ export function render(highlighter: HighlighterCore, input: RenderInput, options
   const style = [
     "display:flex",
     "width:100%",
-    "height:100%",
+    tabs ? `height:calc(100% - ${TAB_BAR_HEIGHT}px)` : "height:100%",
     "overflow-y:auto",
     "margin:0",
     "padding:0",
@@ -163,6 +178,7 @@ export function render(highlighter: HighlighterCore, input: RenderInput, options
   }
   return [
     `<style>${css.join("")}</style>`,
+    tabs ? renderTabBar(highlighter, { files: tabs, current: filename, theme }) : "",
     `<div class="mock-monaco-editor ${className}" style="${style.join(";")}">`,
     lineNumbersHtml,
     `<div style="position:sticky;top:0;left:${lineNumbersWidth}px;flex-shrink:0;width:${decorationsWidth}px;${shikiStyle}"></div>`,
@@ -172,6 +188,56 @@ export function render(highlighter: HighlighterCore, input: RenderInput, options
   ].join("");
 }
 
+/** Renders the tab bar of the open files. */
+export function renderTabBar(highlighter: HighlighterCore, options: TabBarOptions): string {
+  const { files, current, dirty = [] } = options;
+  const { bg, fg, colors = {} } = highlighter.getTheme(options.theme ?? highlighter.getLoadedThemes()[0]);
+  const style = [
+    "display:flex",
+    `height:${TAB_BAR_HEIGHT}px`,
+    "overflow-x:auto",
+    "overflow-y:hidden",
+    "scrollbar-width:none",
+    "font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif",
+    "font-size:13px",
+    "user-select:none",
+    `background:${colors["editorGroupHeader.tabsBackground"] ?? bg}`,
+  ];
+  const tabs = files.map((file) => {
+    const active = file === current;
+    const tabStyle = [
+      "display:flex",
+      "flex-shrink:0",
+      "align-items:center",
+      "gap:6px",
+      "padding:0 6px 0 10px",
+      "cursor:pointer",
+      "white-space:nowrap",
+      `border-right:1px solid ${colors["tab.border"] ?? "transparent"}`,
+      `background:${active ? colors["tab.activeBackground"] ?? bg : colors["tab.inactiveBackground"] ?? "transparent"}`,
+      `color:${active ? colors["tab.activeForeground"] ?? fg : colors["tab.inactiveForeground"] ?? fg}`,
+      active ? "" : "opacity:0.8",
+    ];
+    const closeStyle = "display:inline-block;width:18px;line-height:18px;text-align:center;border-radius:4px";
+    const name = escapeHtml(file.split("/").pop() ?? file);
+    const title = escapeHtml(file.replace(/^file:\/\//, ""));
+    return [
+      `<div class="monaco-editor-tab${active ? " active" : ""}" role="tab" aria-selected="${active}" draggable="true"`,
+      ` data-file="${escapeHtml(file)}" title="${title}" style="${tabStyle.filter(Boolean).join(";")}">`,
+      `<span>${name}</span>`,
+      `<span class="monaco-editor-tab-close" role="button" aria-label="Close" style="${closeStyle}">`,
+      dirty.includes(file) ? "\u25CF" : "\u00D7",
+      "</span></div>",
+    ].join("");
+  });
+  return `<div class="monaco-editor-tabs" role="tablist" style="${style.join(";")}">${tabs.join("")}</div>`;
+}
+
+/** Escape the special characters of HTML. */
+function escapeHtml(s: string) {
+  return s.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
 /** Count the number of lines in the given text. */
 function countLines(text: string) {
   let n = 1;
@@ -0,0 +1,207 @@
+export interface SearchOptions {
+  regex?: boolean;
+  caseSensitive?: boolean;
+  wholeWord?: boolean;
+}
+
+export interface TextMatch {
+  /** the offset of the match in the text. */
+  offset: number;
+  /** the matched text. */
+  text: string;
+  /** the captured groups of the match. */
+  groups: (string | undefined)[];
+  /** the named groups of the match. */
+  namedGroups?: Record<string, string | undefined>;
+}
+
+/** Create the global RegExp to search the query. */
+export function createSearchRegExp(query: string, options: SearchOptions = {}): RegExp {
+  let source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  if (options.wholeWord) {
+    source = "\\b(?:" + source + ")\\b";
+  }
+  return new RegExp(source, options.caseSensitive ? "gm" : "gim");
+}
+
+/** Find all matches of the global RegExp in the text. */
+export function findMatches(text: string, regexp: RegExp): TextMatch[] {
+  const matches: TextMatch[] = [];
+  regexp.lastIndex = 0;
+  for (let m = regexp.exec(text); m; m = regexp.exec(text)) {
+    if (m[0] === "") {
+      // skip the empty match to avoid infinite loop
+      regexp.lastIndex++;
+      continue;
+    }
+    matches.push({ offset: m.index, text: m[0], groups: m.slice(1), namedGroups: m.groups });
+  }
+  return matches;
+}
+
+/** Expand the replacement pattern (`$&`, `$1`, `$<name>` and `$$`) with the match. */
+export function expandReplacement(replacement: string, match: TextMatch): string {
+  return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (token, ref: string, name?: string) => {
+    if (ref === "$") {
+      return "$";
+    }
+    if (ref === "&") {
+      return match.text;
+    }
+    if (name !== undefined) {
+      return match.namedGroups?.[name] ?? "";
+    }
+    const index = Number(ref);
+    return index > 0 && index <= match.groups.length ? match.groups[index - 1] ?? "" : token;
+  });
+}
+
+/**
+ * Convert the glob pattern to RegExp, supports `**`, `*`, `?` and `{a,b}`.
+ * The pattern without `/` matches the name in any directory.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = glob.replace(/^\.?\/+/, "");
+  if (!pattern.includes("/")) {
+    pattern = "**/" + pattern;
+  }
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "*") {
+      if (pattern[i + 1] === "*") {
+        // `**/` matches zero or more directories
+        source += pattern[i + 2] === "/" ? "(?:.*/)?" : ".*";
+        i += pattern[i + 2] === "/" ? 2 : 1;
+      } else {
+        source += "[^/]*";
+      }
+    } else if (c === "?") {
+      source += "[^/]";
+    } else if (c === "{") {
+      source += "(?:";
+    } else if (c === "}") {
+      source += ")";
+    } else if (c === ",") {
+      source += "|";
+    } else {
+      source += c.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp("^" + source + "$");
+}
+
+/** Create a filter of the paths, a path matches a glob if the path or one of its parent directories matches. */
+export function createPathFilter(include?: string | string[], exclude?: string | string[]): (path: string) => boolean {
+  const toRegExps = (globs?: string | string[]) => [globs ?? []].flat().filter(Boolean).map(globToRegExp);
+  const includes = toRegExps(include);
+  const excludes = toRegExps(exclude);
+  const test = (regexps: RegExp[], path: string) => {
+    const segments = path.replace(/^\/+/, "").split("/");
+    return regexps.some((regexp) => segments.some((_, i) => regexp.test(segments.slice(0, i + 1).join("/"))));
+  };
+  return (path) => (includes.length === 0 || test(includes, path)) && !test(excludes, path);
+}
+
+/** Get the start offsets of the lines in the text. */
+export function getLineStarts(text: string): number[] {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    if (char === 10 || (char === 13 && text.charCodeAt(i + 1) !== 10)) {
+      lineStarts.push(i + 1);
+    }
+  }
+  return lineStarts;
+}
+
+/** Get the 1-based position of the offset. */
+export function positionAt(lineStarts: number[], offset: number): { lineNumber: number; column: number } {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineStarts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return { lineNumber: low + 1, column: offset - lineStarts[low] + 1 };
+}
+
+export interface FuzzyMatch {
+  /** the score of the match, higher is better. */
+  score: number;
+  /** the offsets of the matched characters in the path. */
+  offsets: number[];
+}
+
+/**
+ * Fuzzy match the query against the path, the characters of the query must appear in the path in order.
+ * The matches at the start of a word, in the file name, and the consecutive matches score higher.
+ */
+export function fuzzyMatchPath(query: string, path: string): FuzzyMatch | null {
+  const q = query.replace(/\s+/g, "").toLowerCase();
+  const p = path.toLowerCase();
+  const n = q.length;
+  const m = p.length;
+  if (n === 0) {
+    return { score: 0, offsets: [] };
+  }
+  if (n > m) {
+    return null;
+  }
+  const nameStart = path.lastIndexOf("/") + 1;
+  const isWordStart = (j: number) => {
+    const prev = path[j - 1];
+    return j === 0 || "/\\._- ".includes(prev) || (path[j] !== p[j] && prev === p[j - 1]);
+  };
+  // `scores[i][j]` is the best score of matching `q[0..i]` with `q[i]` at `p[j]`, `froms[i][j]` is where `q[i - 1]` matched
+  const scores: Float64Array[] = [];
+  const froms: Int32Array[] = [];
+  for (let i = 0; i < n; i++) {
+    const row = new Float64Array(m).fill(-Infinity);
+    const from = new Int32Array(m).fill(-1);
+    const prevRow = scores[i - 1];
+    // the best score of the previous row before `j - 1`
+    let gapScore = -Infinity;
+    let gapFrom = -1;
+    for (let j = i; j < m; j++) {
+      if (prevRow && j >= 2 && prevRow[j - 2] > gapScore) {
+        gapScore = prevRow[j - 2];
+        gapFrom = j - 2;
+      }
+      if (p[j] !== q[i]) {
+        continue;
+      }
+      const score = 1 + (isWordStart(j) ? 8 : 0) + (j >= nameStart ? 2 : 0);
+      if (!prevRow) {
+        row[j] = score;
+      } else if (j >= 1 && prevRow[j - 1] + 5 >= gapScore && prevRow[j - 1] > -Infinity) {
+        row[j] = score + prevRow[j - 1] + 5;
+        from[j] = j - 1;
+      } else if (gapScore > -Infinity) {
+        row[j] = score + gapScore;
+        from[j] = gapFrom;
+      }
+    }
+    scores.push(row);
+    froms.push(from);
+  }
+  let end = -1;
+  for (let j = 0; j < m; j++) {
+    if (scores[n - 1][j] > -Infinity && (end === -1 || scores[n - 1][j] >= scores[n - 1][end])) {
+      end = j;
+    }
+  }
+  if (end === -1) {
+    return null;
+  }
+  const offsets = new Array<number>(n);
+  for (let i = n - 1, j = end; i >= 0; j = froms[i][j], i--) {
+    offsets[i] = j;
+  }
+  // prefer the shorter paths
+  return { score: scores[n - 1][end] - m / 100, offsets };
+}
@@ -5,7 +5,20 @@ import type { ShikiPrimitive, ThemeRegistrationResolved } from "@shikijs/core";
 import type { StateStack } from "@shikijs/core/textmate";
 import { EncodedTokenMetadata, INITIAL } from "@shikijs/core/textmate";
 
-export interface MonacoTheme extends monacoNs.editor.IStandaloneThemeData {}
+export interface MonacoTheme extends monacoNs.editor.IStandaloneThemeData {
+  semanticHighlighting?: boolean;
+  semanticTokenColors?: Record<string, { foreground?: string; fontStyle?: string }>;
+}
+
+/** the style of a semantic token selector in the `semanticTokenColors` of a VS Code theme. */
+type SemanticTokenStyle = string | {
+  foreground?: string;
+  fontStyle?: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+};
 
 export function textmateThemeToMonacoTheme(theme: ThemeRegistrationResolved): MonacoTheme {
   const rules: MonacoTheme["rules"] = [];
@@ -21,11 +34,28 @@ export function textmateThemeToMonacoTheme(theme: ThemeRegistrationResolved): Mo
       }
     }
   }
+  // the semantic token styles are either a color or an object of the color and the font style flags
+  const semanticTokenColors: MonacoTheme["semanticTokenColors"] = {};
+  for (const [selector, style] of Object.entries<SemanticTokenStyle>(theme.semanticTokenColors ?? {})) {
+    if (typeof style === "string") {
+      semanticTokenColors[selector] = { foreground: normalizeColor(style) };
+    } else if (style && typeof style === "object") {
+      const { foreground, fontStyle, bold, italic, underline, strikethrough } = style;
+      const flags = Object.entries({ bold, italic, underline, strikethrough }).filter(([, v]) => v !== undefined);
+      semanticTokenColors[selector] = {
+        foreground: foreground ? normalizeColor(foreground) : undefined,
+        // `{ italic: false }` removes the italic style of the textmate token
+        fontStyle: fontStyle ?? (flags.length > 0 ? flags.filter(([, v]) => v).map(([k]) => k).join(" ") : undefined),
+      };
+    }
+  }
   return {
     base: theme.type === "dark" ? "vs-dark" : "vs",
     colors: Object.fromEntries(Object.entries(theme.colors ?? {}).map(([key, value]) => [key, normalizeColor(value)])),
     inherit: false,
     rules,
+    semanticHighlighting: theme.semanticHighlighting,
+    semanticTokenColors,
   };
 }
 
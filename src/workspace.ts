@@ -2,14 +2,29 @@ import type monacoNS from "monaco-editor-core";
 import type {
   FileStat,
   FileSystem,
+  FileSystemTransaction,
+  OverlayFileChange,
   Workspace as IWorkspace,
+  WorkspaceDiagnostic,
+  WorkspaceDiagnostics,
+  WorkspaceEditorGroup,
+  WorkspaceExportOptions,
   WorkspaceHistory,
   WorkspaceHistoryState,
+  WorkspaceImportOptions,
   WorkspaceInit,
-  WorkspaceViewState,
+  WorkspaceSearchMatch,
+  WorkspaceSearchOptions,
+  WorkspaceSnapshot,
+  WorkspaceTabs,
+  WorkspaceTabsState,
 } from "../types/workspace.d.ts";
 
 // ! external modules, don't remove the `.js` extension
+import { type ArchiveEntry, createTar, createZip, gunzip, isGzip, isZip, readTar, readZip } from "./archive.js";
+import { Collaboration } from "./collab.js";
+import { merge3 } from "./merge.js";
+import { createPathFilter, createSearchRegExp, expandReplacement, findMatches, getLineStarts, positionAt } from "./search.js";
 import {
   createPersistStateStorage,
   createPersistTask,
@@ -35,71 +50,328 @@ export class NotFoundError extends Error {
 /** class Workspace implements IWorkspace */
 export class Workspace implements IWorkspace {
   private _monaco: PromiseWithResolvers<typeof monacoNS>;
-  private _history: WorkspaceHistory;
-  private _fs: FileSystem;
-  private _viewState: WorkspaceViewState;
+  private _name: string;
+  private _inMemory: boolean;
+  private _groups = new Map<string, EditorGroup>();
+  private _editorGroups = new WeakMap<monacoNS.editor.ICodeEditor, EditorGroup>();
+  private _activeGroup?: EditorGroup;
+  private _fs: FileSystem & { batch: NonNullable<FileSystem["batch"]> };
+  private _template: WorkspaceStateStorage<WorkspaceTemplate>;
+  private _editHistory: WorkspaceStateStorage<EditHistory>;
+  private _maxUndoHistory: number;
+  private _localHistory?: LocalFileHistory;
   private _entryFile?: string;
+  private _diagnostics = new MarkersDiagnostics();
+  private _projectDiagnostics: boolean;
+  private _autoSave: NonNullable<WorkspaceInit["autoSave"]>;
+  private _dirty = new Set<string>();
+  private _dirtyHandlers = new Set<(url: string, dirty: boolean) => void>();
+  private _preventUnload = (e: Event) => e.preventDefault();
+  private _conflicts = new Set<string>();
+  private _conflictHandlers = new Set<(url: string, conflicted: boolean) => void>();
+  private _documents = new Map<string, { save: () => Promise<void>; revert: () => Promise<void> }>();
+  private _collaboration?: Collaboration;
 
   constructor(options: WorkspaceInit = {}) {
-    const { name = "default", browserHistory, initialFiles, entryFile, customFS } = options;
+    const {
+      name = "default",
+      storage = "indexeddb",
+      browserHistory,
+      initialFiles,
+      version,
+      onUpgrade,
+      entryFile,
+      customFS,
+      maxUndoHistory = 100,
+      localHistory = true,
+      projectDiagnostics = false,
+      autoSave = "afterDelay",
+      collaboration,
+    } = options;
+    const inMemory = storage === "memory";
 
     this._monaco = promiseWithResolvers();
-    this._fs = customFS ?? new IndexedDBFileSystem("modern-monaco-workspace(" + name + ")");
-    this._viewState = new WorkspaceStateStorage<monacoNS.editor.ICodeEditorViewState>("modern-monaco-state(" + name + ")");
+    this._name = name;
+    this._inMemory = inMemory;
+    const scope = "modern-monaco-workspace(" + name + ")";
+    const fs = customFS ?? (
+      inMemory ? new MemoryFileSystem() : storage === "opfs" ? new OPFSFileSystem(scope) : new IndexedDBFileSystem(scope)
+    );
+    // fallback for custom filesystems that don't support transactions
+    this._fs = typeof fs.batch === "function" ? fs as typeof this._fs : withBatchFallback(fs);
+    this._template = new WorkspaceStateStorage<WorkspaceTemplate>("modern-monaco-state(" + name + ")", inMemory, "template:");
+    this._editHistory = new WorkspaceStateStorage<EditHistory>("modern-monaco-state(" + name + ")", inMemory, "edit-history:");
+    this._maxUndoHistory = maxUndoHistory;
     this._entryFile = entryFile;
+    this._projectDiagnostics = projectDiagnostics;
+    this._autoSave = autoSave;
+    if (collaboration) {
+      this._collaboration = new Collaboration(collaboration);
+    }
 
     if (initialFiles) {
-      for (const [name, data] of Object.entries(initialFiles)) {
-        void this._fs.stat(name).catch(async (err) => {
-          if (err instanceof NotFoundError) {
-            const { pathname } = filenameToURL(name);
-            const dir = pathname.slice(0, pathname.lastIndexOf("/"));
-            if (dir) {
-              await this._fs.createDirectory(dir);
+      void this._writeInitialFiles(initialFiles, version, onUpgrade);
+    }
+
+    if (localHistory) {
+      const options = localHistory === true ? undefined : localHistory;
+      this._localHistory = new LocalFileHistory(name, inMemory, options, (url, content) => this._restore(url, content));
+    }
+    if (browserHistory && !globalThis.history) {
+      throw new Error("Browser history is not supported.");
+    }
+    // the main group uses the browser history if it's enabled
+    this._groups.set(MAIN_GROUP_ID, {
+      id: MAIN_GROUP_ID,
+      history: browserHistory
+        ? new BrowserHistory(browserHistory === true ? "/" : browserHistory.basePath, this._localHistory)
+        : new LocalStorageHistory(name, 100, inMemory, this._localHistory),
+      tabs: new LocalStorageTabs(name, inMemory),
+      viewState: new WorkspaceStateStorage<monacoNS.editor.ICodeEditorViewState>("modern-monaco-state(" + name + ")", inMemory),
+    });
+  }
+
+  /** write the initial files, the files are upgraded when the version of the template changes. */
+  private async _writeInitialFiles(
+    initialFiles: Record<string, string | Uint8Array>,
+    version: WorkspaceInit["version"],
+    onUpgrade: WorkspaceInit["onUpgrade"] = "keep-user",
+  ): Promise<void> {
+    const files = new Map(Object.entries(initialFiles).map(([name, content]) => [filenameToURL(name).pathname, content]));
+    const template = version !== undefined ? await this._template.get(filenameToURL("/")) : undefined;
+    if (template && template.version === version) {
+      return;
+    }
+    await this.fs.batch(async (tx) => {
+      const write = async (pathname: string, content: string | Uint8Array) => {
+        const dir = pathname.slice(0, pathname.lastIndexOf("/"));
+        if (dir) {
+          await tx.createDirectory(dir);
+        }
+        await tx.writeFile(pathname, content);
+      };
+      if (!template) {
+        // no template stored, write the missing files only
+        for (const [pathname, content] of files) {
+          await tx.stat(pathname).catch(async (err) => {
+            if (err instanceof NotFoundError) {
+              await write(pathname, content);
+            } else {
+              throw err;
             }
-            await this._fs.writeFile(name, data);
-          } else {
-            throw err;
+          });
+        }
+        return;
+      }
+      const oldFiles = new Map(Object.entries(template.files));
+      for (const pathname of new Set([...oldFiles.keys(), ...files.keys()])) {
+        const oldTemplate = oldFiles.get(pathname);
+        const newTemplate = files.get(pathname);
+        if (oldTemplate !== undefined && newTemplate !== undefined && contentEqual(oldTemplate, newTemplate)) {
+          continue;
+        }
+        const stat = await tx.stat(pathname).catch((err) => {
+          if (err instanceof NotFoundError) {
+            return null;
           }
+          throw err;
         });
+        if (stat && stat.type !== 1) {
+          // the user replaced the file with a directory
+          continue;
+        }
+        const user = stat ? await tx.readFile(pathname) : undefined;
+        let result: string | Uint8Array | null | undefined;
+        if (typeof onUpgrade === "function") {
+          const isText = typeof (newTemplate ?? oldTemplate) === "string";
+          result = await onUpgrade({
+            path: pathname,
+            oldVersion: template.version,
+            newVersion: version!,
+            oldTemplate,
+            newTemplate,
+            user: user && isText ? decode(user) : user,
+          });
+        } else {
+          result = upgradeFile(onUpgrade, oldTemplate, newTemplate, user);
+        }
+        if (result === null) {
+          if (user) {
+            await tx.delete(pathname);
+          }
+        } else if (result !== undefined && !(user && contentEqual(user, result))) {
+          await write(pathname, result);
+        }
       }
-    }
-
-    if (browserHistory) {
-      if (!globalThis.history) {
-        throw new Error("Browser history is not supported.");
-      }
-      this._history = new BrowserHistory(browserHistory === true ? "/" : browserHistory.basePath);
-    } else {
-      this._history = new LocalStorageHistory(name);
+    });
+    if (version !== undefined) {
+      await this._template.save(filenameToURL("/"), { version, files: Object.fromEntries(files) });
     }
   }
 
   setupMonaco(monaco: typeof monacoNS) {
     this._monaco.resolve(monaco);
+    this._diagnostics.setup(monaco);
+    if (this._projectDiagnostics) {
+      void this._syncBackgroundModels(monaco);
+    }
+  }
+
+  /**
+   * create the background models of the unopened project files, the language servers validate them like the open documents.
+   * the background models are kept in sync with the file system, and replaced by the editable models once the files are opened.
+   */
+  private async _syncBackgroundModels(monaco: typeof monacoNS): Promise<void> {
+    const fs = this._fs;
+    const isProjectFile = (path: string) => PROJECT_FILE_REGEXP.test(path) && !path.split("/").includes("node_modules");
+    const isBackgroundModel = (model: monacoNS.editor.ITextModel | null): model is monacoNS.editor.ITextModel =>
+      !!model && Reflect.has(model, "__BG__");
+    const sync = async (path: string) => {
+      const uri = monaco.Uri.parse(filenameToURL(path).href);
+      const opened = monaco.editor.getModel(uri);
+      if (opened && !isBackgroundModel(opened)) {
+        return;
+      }
+      const content = await fs.readTextFile(path).catch((error) => {
+        if (error instanceof NotFoundError) {
+          return null;
+        }
+        throw error;
+      });
+      const model = monaco.editor.getModel(uri);
+      if (content === null) {
+        if (isBackgroundModel(model)) {
+          model.dispose();
+        }
+      } else if (!model) {
+        Reflect.set(monaco.editor.createModel(content, undefined, uri), "__BG__", true);
+      } else if (isBackgroundModel(model) && model.getValue() !== content) {
+        model.setValue(content);
+      }
+    };
+    // sync the files one by one to avoid flooding the language servers
+    let queue = Promise.resolve();
+    const enqueue = (paths: string[]) => {
+      for (const path of paths) {
+        queue = queue.then(() => sync(path)).catch((error) => console.error(error));
+      }
+    };
+    fs.watch("/", { recursive: true }, (kind, path, type) => {
+      if (kind === "remove") {
+        // the files of a removed directory are not notified one by one
+        for (const model of monaco.editor.getModels()) {
+          if (isBackgroundModel(model) && (model.uri.path === path || model.uri.path.startsWith(path + "/"))) {
+            model.dispose();
+          }
+        }
+      } else if (type === 2) {
+        // a directory is created or moved here
+        this._listFiles(isProjectFile, path).then(enqueue, (error) => console.error(error));
+      } else if (isProjectFile(path)) {
+        enqueue([path]);
+      }
+    });
+    enqueue(await this._listFiles(isProjectFile));
+  }
+
+  get diagnostics(): WorkspaceDiagnostics {
+    return this._diagnostics;
   }
 
   get entryFile() {
     return this._entryFile;
   }
 
+  get autoSave() {
+    return this._autoSave;
+  }
+
   get fs() {
     return this._fs;
   }
 
   get history() {
-    return this._history;
+    return this._groups.get(MAIN_GROUP_ID)!.history;
+  }
+
+  get tabs(): WorkspaceTabs {
+    return this._groups.get(MAIN_GROUP_ID)!.tabs;
   }
 
   get viewState() {
-    return this._viewState;
+    return this._groups.get(MAIN_GROUP_ID)!.viewState;
+  }
+
+  get editorGroups(): WorkspaceEditorGroup[] {
+    return [...this._groups.values()];
+  }
+
+  getEditorGroup(id: string = MAIN_GROUP_ID): WorkspaceEditorGroup {
+    let group = this._groups.get(id);
+    if (!group) {
+      const scope = this._name + ":" + id;
+      group = {
+        id,
+        history: new LocalStorageHistory(scope, 100, this._inMemory, this._localHistory),
+        tabs: new LocalStorageTabs(scope, this._inMemory),
+        viewState: new WorkspaceStateStorage<monacoNS.editor.ICodeEditorViewState>(
+          "modern-monaco-state(" + this._name + ")",
+          this._inMemory,
+          "group(" + id + "):",
+        ),
+      };
+      this._groups.set(id, group);
+    }
+    return group;
+  }
+
+  /** bind the editor to the group, the documents opened in the editor use the history and view state of the group. */
+  _bindEditor(editor: monacoNS.editor.ICodeEditor, groupId: string = MAIN_GROUP_ID): WorkspaceEditorGroup {
+    const group = this.getEditorGroup(groupId) as EditorGroup;
+    group.editor = editor;
+    this._editorGroups.set(editor, group);
+    this._activeGroup ??= group;
+    editor.onDidFocusEditorWidget(() => {
+      this._activeGroup = group;
+    });
+    this._collaboration?.bindEditor(editor);
+    if (this._autoSave === "onFocusChange") {
+      editor.onDidBlurEditorWidget(() => {
+        const uri = editor.getModel()?.uri;
+        if (uri) {
+          void this.save(uri.toString());
+        }
+      });
+      editor.onDidChangeModel(({ oldModelUrl }) => {
+        if (oldModelUrl) {
+          void this.save(oldModelUrl.toString());
+        }
+      });
+    }
+    editor.onDidDispose(() => {
+      if (group.editor === editor) {
+        group.editor = undefined;
+      }
+      if (this._activeGroup === group) {
+        this._activeGroup = undefined;
+      }
+    });
+    return group;
+  }
+
+  /** get the editor of another group to open a document to the side of the editor. */
+  _getSideEditor(editor: monacoNS.editor.ICodeEditor): monacoNS.editor.ICodeEditor | undefined {
+    const group = this._editorGroups.get(editor);
+    const groups = [...this._groups.values()].filter((g) => g.editor);
+    const index = groups.findIndex((g) => g === group);
+    return groups.length > 1 ? groups[(index + 1) % groups.length].editor : undefined;
   }
 
   async openTextDocument(uri: string | URL, content?: string, editor?: any): Promise<monacoNS.editor.ITextModel> {
     const monaco = await this._monaco.promise;
     const getEditor = async () => {
       const editors = monaco.editor.getEditors();
-      const editor = editors.find(e => e.hasWidgetFocus() || e.hasTextFocus()) ?? editors[0];
+      const editor = editors.find(e => e.hasWidgetFocus() || e.hasTextFocus()) ?? this._activeGroup?.editor ?? editors[0];
       if (!editor) {
         return new Promise<monacoNS.editor.ICodeEditor>((resolve) => setTimeout(() => resolve(getEditor()), 100));
       }
@@ -114,35 +386,143 @@ export class Workspace implements IWorkspace {
     uri: string | URL,
     selectionOrPosition?: monacoNS.IRange | monacoNS.IPosition,
     readonlyContent?: string,
+    preview?: boolean,
   ): Promise<monacoNS.editor.ITextModel> {
     const fs = this._fs;
+    const group = this._editorGroups.get(editor) ?? this._groups.get(MAIN_GROUP_ID)!;
     const href = normalizeURL(uri).href;
     const content = readonlyContent ?? await fs.readTextFile(href);
-    const viewState = await this.viewState.get(href);
+    // the version of the file is used to detect the changes outside the editor
+    const stat = typeof readonlyContent !== "string" ? await fs.stat(href) : undefined;
+    const viewState = await group.viewState.get(href);
     const modelUri = monaco.Uri.parse(href);
-    const model = monaco.editor.getModel(modelUri) ?? monaco.editor.createModel(content, undefined, modelUri);
+    const trackEdits = typeof readonlyContent !== "string" && this._maxUndoHistory > 0;
+    const backgroundModel = monaco.editor.getModel(modelUri);
+    if (backgroundModel && Reflect.has(backgroundModel, "__BG__") && typeof readonlyContent !== "string") {
+      // replace the background model of the project diagnostics with an editable model
+      backgroundModel.dispose();
+    }
+    const editHistory = trackEdits && !monaco.editor.getModel(modelUri) ? await this._loadEditHistory(href, content) : undefined;
+    let model = monaco.editor.getModel(modelUri);
+    let editVersions: number[][] | undefined;
+    if (!model) {
+      model = monaco.editor.createModel(editHistory?.base ?? content, undefined, modelUri);
+      if (editHistory) {
+        editVersions = replayEditHistory(model, editHistory);
+      }
+    }
     if (!Reflect.has(model, "__OB__") && typeof readonlyContent !== "string") {
-      const persist = createPersistTask(() => fs.writeFile(href, model.getValue(), { isModelContentChange: true }));
-      const disposable = model.onDidChangeContent(persist);
+      Reflect.deleteProperty(model, "__BG__");
+      // the document is dirty unless its alternative version is the saved one, e.g. undoing to the saved content
+      let savedVersionId = model.getAlternativeVersionId();
+      let fileVersion = stat!.version;
+      const markSaved = (versionId: number) => {
+        savedVersionId = versionId;
+        this._setDirty(href, model.getAlternativeVersionId() !== versionId);
+        this._setConflict(href, false);
+      };
+      // saving a conflicted document overwrites the changes outside the editor
+      const save = async () => {
+        const content = model.getValue();
+        const versionId = model.getAlternativeVersionId();
+        await fs.writeFile(href, content, { isModelContentChange: true });
+        fileVersion = (await fs.stat(href)).version;
+        if (model.isDisposed()) {
+          this._setDirty(href, false);
+        } else {
+          markSaved(versionId);
+        }
+        await this._localHistory?.record(href, content);
+      };
+      const revert = async () => {
+        const { version } = await fs.stat(href);
+        const content = await fs.readTextFile(href);
+        fileVersion = version;
+        if (model.getValue() !== content) {
+          model.pushStackElement();
+          model.pushEditOperations([], [{ range: model.getFullModelRange(), text: content }], () => null);
+          model.pushStackElement();
+        }
+        markSaved(model.getAlternativeVersionId());
+      };
+      // reload the changes outside the editor, the unsaved changes are kept and the document is marked as conflicted
+      const reload = async () => {
+        const { version } = await fs.stat(href);
+        if (version === fileVersion) {
+          return;
+        }
+        const content = await fs.readTextFile(href);
+        if (model.isDisposed()) {
+          return;
+        }
+        if (model.getValue() === content) {
+          fileVersion = version;
+          markSaved(model.getAlternativeVersionId());
+        } else if (this._dirty.has(href)) {
+          this._setConflict(href, true);
+        } else {
+          fileVersion = version;
+          // replace the content with an undoable edit, like `revert`
+          model.pushStackElement();
+          model.pushEditOperations([], [{ range: model.getFullModelRange(), text: content }], () => null);
+          model.pushStackElement();
+          markSaved(model.getAlternativeVersionId());
+        }
+      };
+      // the auto-save doesn't overwrite the changes outside the editor
+      const persist = createPersistTask(async () => {
+        if (!this._conflicts.has(href)) {
+          await save();
+        }
+      });
+      const disposable = model.onDidChangeContent(() => {
+        this._setDirty(href, model.getAlternativeVersionId() !== savedVersionId);
+        // the changes of the peers are saved like the local edits, each peer may have its own file system
+        if (this._autoSave === "afterDelay") {
+          persist();
+        }
+      });
+      this._documents.set(href, { save, revert });
+      const untrack = trackEdits
+        ? trackEditHistory(
+          model,
+          editHistory && editVersions ? editHistory : { base: model.getValue(), edits: [], applied: 0 },
+          editVersions ?? [],
+          this._maxUndoHistory,
+          (history) => this._editHistory.save(href, history),
+          () => this._collaboration?.isApplying(href) ?? false,
+        )
+        : undefined;
       const unwatch = fs.watch(href, (kind, _, __, context) => {
         if (kind === "modify" && (!context || !context.isModelContentChange)) {
-          fs.readTextFile(href).then((content) => {
-            if (model.getValue() !== content) {
-              model.setValue(content);
-              model.pushStackElement();
+          reload().catch((error) => {
+            // the file is deleted after the change
+            if (!(error instanceof NotFoundError)) {
+              console.error(error);
             }
           });
         }
       });
+      const unbindCollaboration = this._collaboration?.bindModel(model, href);
       model.onWillDispose(() => {
         Reflect.deleteProperty(model, "__OB__");
+        this._documents.delete(href);
+        unbindCollaboration?.();
+        this._setDirty(href, false);
+        this._setConflict(href, false);
         disposable.dispose();
+        untrack?.();
         unwatch();
       });
       Reflect.set(model, "__OB__", true);
     }
     editor.setModel(model);
     editor.updateOptions({ readOnly: typeof readonlyContent === "string" });
+    // the previewing document is not added to the tabs and the history
+    if (typeof readonlyContent !== "string" && !preview) {
+      group.tabs.open(href);
+      group.tabs.setDirty(href, this._dirty.has(href));
+    }
     if (typeof readonlyContent === "string") {
       const disposable = editor.onDidChangeModel(() => {
         model.dispose();
@@ -165,12 +545,306 @@ export class Workspace implements IWorkspace {
     } else if (viewState) {
       editor.restoreViewState(viewState);
     }
-    if (this._history.state.current !== href) {
-      this._history.push(href);
+    if (!preview && group.history.state.current !== href) {
+      group.history.push(href);
     }
     return model;
   }
 
+  private _setDirty(href: string, dirty: boolean) {
+    if (dirty === this._dirty.has(href)) {
+      return;
+    }
+    if (dirty) {
+      this._dirty.add(href);
+    } else {
+      this._dirty.delete(href);
+    }
+    if (typeof addEventListener === "function") {
+      // ask the user to confirm leaving the page when there are unsaved changes
+      if (this._dirty.size === 1 && dirty) {
+        addEventListener("beforeunload", this._preventUnload);
+      } else if (this._dirty.size === 0) {
+        removeEventListener("beforeunload", this._preventUnload);
+      }
+    }
+    for (const group of this._groups.values()) {
+      group.tabs.setDirty(href, dirty);
+    }
+    for (const handler of this._dirtyHandlers) {
+      handler(href, dirty);
+    }
+  }
+
+  isDirty(uri: string | URL): boolean {
+    return this._dirty.has(normalizeURL(uri).href);
+  }
+
+  async save(uri: string | URL): Promise<void> {
+    const href = normalizeURL(uri).href;
+    if (this._dirty.has(href)) {
+      await this._documents.get(href)?.save();
+    }
+  }
+
+  async saveAll(): Promise<void> {
+    await Promise.all([...this._dirty].map((href) => this._documents.get(href)?.save()));
+  }
+
+  async revert(uri: string | URL): Promise<void> {
+    const href = normalizeURL(uri).href;
+    if (this._dirty.has(href)) {
+      await this._documents.get(href)?.revert();
+    }
+  }
+
+  onDidChangeDirty(handler: (url: string, dirty: boolean) => void): () => void {
+    this._dirtyHandlers.add(handler);
+    return () => {
+      this._dirtyHandlers.delete(handler);
+    };
+  }
+
+  private _setConflict(href: string, conflicted: boolean) {
+    if (conflicted === this._conflicts.has(href)) {
+      return;
+    }
+    if (conflicted) {
+      this._conflicts.add(href);
+    } else {
+      this._conflicts.delete(href);
+    }
+    for (const handler of this._conflictHandlers) {
+      handler(href, conflicted);
+    }
+  }
+
+  hasConflict(uri: string | URL): boolean {
+    return this._conflicts.has(normalizeURL(uri).href);
+  }
+
+  async resolveConflict(uri: string | URL, resolution: "mine" | "theirs"): Promise<void> {
+    const href = normalizeURL(uri).href;
+    const document = this._documents.get(href);
+    if (document && this._conflicts.has(href)) {
+      await (resolution === "mine" ? document.save() : document.revert());
+    }
+  }
+
+  onDidChangeConflict(handler: (url: string, conflicted: boolean) => void): () => void {
+    this._conflictHandlers.add(handler);
+    return () => {
+      this._conflictHandlers.delete(handler);
+    };
+  }
+
+  /** restore the content of a snapshot, the change can be undone if the file is opened in the editor. */
+  private async _restore(url: string, content: string): Promise<void> {
+    // check if the monaco is loaded without waiting for it
+    const monaco = await Promise.race([this._monaco.promise, undefined]);
+    const model = monaco?.editor.getModel(monaco.Uri.parse(url));
+    if (model && Reflect.has(model, "__OB__")) {
+      model.pushStackElement();
+      model.pushEditOperations([], [{ range: model.getFullModelRange(), text: content }], () => null);
+      model.pushStackElement();
+    } else {
+      await this._fs.writeFile(url, content);
+    }
+  }
+
+  /** load the persisted edit history of the file, returns `undefined` if the file is changed outside the editor. */
+  private async _loadEditHistory(href: string, content: string): Promise<EditHistory | undefined> {
+    const history = await this._editHistory.get(href);
+    if (history && applyEditGroups(history.base, history.edits.slice(0, history.applied)) === content) {
+      return history;
+    }
+    return undefined;
+  }
+
+  async export(options?: WorkspaceExportOptions): Promise<Uint8Array> {
+    const { format = "zip", dir = "/" } = options ?? {};
+    const fs = this._fs;
+    const root = filenameToURL(dir).pathname;
+    const entries: ArchiveEntry[] = [];
+    const walk = async (dir: string) => {
+      for (const [name, type] of await fs.readDirectory(dir)) {
+        const path = (dir === "/" ? "" : dir) + "/" + name;
+        const relPath = path.slice(root === "/" ? 1 : root.length + 1);
+        const { mtime } = await fs.stat(path);
+        if (type === 2) {
+          entries.push({ name: relPath + "/", content: null, mtime });
+          await walk(path);
+        } else if (type === 1) {
+          entries.push({ name: relPath, content: await fs.readFile(path), mtime });
+        }
+      }
+    };
+    await walk(root);
+    return format === "tar" ? createTar(entries) : createZip(entries);
+  }
+
+  async import(archive: Blob | ArrayBuffer | Uint8Array, options?: WorkspaceImportOptions): Promise<void> {
+    let data = archive instanceof Uint8Array
+      ? archive
+      : new Uint8Array(archive instanceof ArrayBuffer ? archive : await archive.arrayBuffer());
+    if (isGzip(data)) {
+      data = await gunzip(data);
+    }
+    const entries = isZip(data) ? await readZip(data) : readTar(data);
+    const root = filenameToURL(options?.dir ?? "/").pathname;
+    await this.fs.batch(async (tx) => {
+      const exists = (path: string) =>
+        tx.stat(path).then(() => true, (err) => {
+          if (err instanceof NotFoundError) {
+            return false;
+          }
+          throw err;
+        });
+      if (root !== "/") {
+        await tx.createDirectory(root);
+      }
+      for (const { name, content } of entries) {
+        const segments = name.split(/[\/\\]+/).filter((s) => s !== "" && s !== ".");
+        if (segments.includes("..")) {
+          throw new Error(`import ${name}: invalid path`);
+        }
+        if (segments.length === 0) {
+          continue;
+        }
+        const path = (root === "/" ? "" : root) + "/" + segments.join("/");
+        if (content === null) {
+          await tx.createDirectory(path);
+          continue;
+        }
+        const dir = path.slice(0, path.lastIndexOf("/"));
+        if (dir) {
+          await tx.createDirectory(dir);
+        }
+        if (!options?.overwrite && await exists(path)) {
+          throw new Error(`import ${path}: file exists`);
+        }
+        await tx.writeFile(path, content);
+      }
+    });
+  }
+
+  /** search the text in the workspace files, the unsaved changes of the open documents are included. */
+  async *search(query: string, options: WorkspaceSearchOptions = {}): AsyncGenerator<WorkspaceSearchMatch> {
+    const regexp = createSearchRegExp(query, options);
+    const maxResults = options.maxResults ?? Infinity;
+    let count = 0;
+    for await (const [url, content] of this._searchFiles(options.include, options.exclude)) {
+      const lineStarts = getLineStarts(content);
+      for (const match of findMatches(content, regexp)) {
+        const start = positionAt(lineStarts, match.offset);
+        const end = positionAt(lineStarts, match.offset + match.text.length);
+        const lineText = content.slice(lineStarts[start.lineNumber - 1], lineStarts[start.lineNumber] ?? content.length);
+        yield {
+          url,
+          range: { startLineNumber: start.lineNumber, startColumn: start.column, endLineNumber: end.lineNumber, endColumn: end.column },
+          text: match.text,
+          lineText: lineText.replace(/\r?\n$|\r$/, ""),
+        };
+        if (++count >= maxResults) {
+          return;
+        }
+      }
+    }
+  }
+
+  /**
+   * replace all matches in the workspace files, returns the number of the replaced matches.
+   * the open documents are edited as one undoable operation per document, other files are written directly.
+   */
+  async replaceAll(query: string, replacement: string, options: WorkspaceSearchOptions = {}): Promise<number> {
+    const regexp = createSearchRegExp(query, options);
+    const replace = (match: ReturnType<typeof findMatches>[number]) => options.regex ? expandReplacement(replacement, match) : replacement;
+    const files: [pathname: string, content: string][] = [];
+    let count = 0;
+    for await (const [url, content, model] of this._searchFiles(options.include, options.exclude)) {
+      const matches = findMatches(content, regexp);
+      if (matches.length === 0) {
+        continue;
+      }
+      count += matches.length;
+      if (model) {
+        const edits = matches.map((match) => {
+          const start = model.getPositionAt(match.offset);
+          const end = model.getPositionAt(match.offset + match.text.length);
+          return {
+            range: { startLineNumber: start.lineNumber, startColumn: start.column, endLineNumber: end.lineNumber, endColumn: end.column },
+            text: replace(match),
+          };
+        });
+        model.pushStackElement();
+        model.pushEditOperations([], edits, () => null);
+        model.pushStackElement();
+      } else {
+        let text = "";
+        let offset = 0;
+        for (const match of matches) {
+          text += content.slice(offset, match.offset) + replace(match);
+          offset = match.offset + match.text.length;
+        }
+        files.push([new URL(url).pathname, text + content.slice(offset)]);
+      }
+    }
+    if (files.length > 0) {
+      await this.fs.batch(async (tx) => {
+        for (const [pathname, content] of files) {
+          await tx.writeFile(pathname, content);
+        }
+      });
+    }
+    return count;
+  }
+
+  /** list the paths of the files in the workspace, or in the `root` directory. */
+  async _listFiles(filter?: (path: string) => boolean, root = "/"): Promise<string[]> {
+    const fs = this._fs;
+    const files: string[] = [];
+    const walk = async (dir: string) => {
+      for (const [name, type] of await fs.readDirectory(dir)) {
+        const path = (dir === "/" ? "" : dir) + "/" + name;
+        if (type === 2) {
+          await walk(path);
+        } else if (type === 1 && (!filter || filter(path))) {
+          files.push(path);
+        }
+      }
+    };
+    await walk(root);
+    return files;
+  }
+
+  /** list the text files to search, the content of the open documents is read from the models. */
+  private async *_searchFiles(
+    include?: string | string[],
+    exclude?: string | string[],
+  ): AsyncGenerator<[url: string, content: string, model?: monacoNS.editor.ITextModel]> {
+    const fs = this._fs;
+    // check if the monaco is loaded without waiting for it
+    const monaco = await Promise.race([this._monaco.promise, undefined]);
+    for (const path of await this._listFiles(createPathFilter(include, exclude))) {
+      const url = filenameToURL(path).href;
+      const model = monaco?.editor.getModel(monaco.Uri.parse(url));
+      if (model && Reflect.has(model, "__OB__")) {
+        yield [url, model.getValue(), model];
+        continue;
+      }
+      const data = await fs.readFile(path).catch((error) => {
+        if (error instanceof NotFoundError) {
+          return null;
+        }
+        throw error;
+      });
+      // skip the deleted files and the binary files
+      if (data && !data.subarray(0, 8000).includes(0)) {
+        yield [url, decode(data)];
+      }
+    }
+  }
+
   async showInputBox(options: monacoNS.InputBoxOptions, token: monacoNS.CancellationToken) {
     const monaco = await this._monaco.promise;
     return monaco.showInputBox(options, token);
@@ -182,18 +856,86 @@ export class Workspace implements IWorkspace {
   }
 }
 
+/** an editor group of the workspace, each group has its own history, tabs and view state. */
+type EditorGroup = {
+  id: string;
+  history: WorkspaceHistory;
+  tabs: LocalStorageTabs;
+  viewState: WorkspaceStateStorage<monacoNS.editor.ICodeEditorViewState>;
+  editor?: monacoNS.editor.ICodeEditor;
+};
+
+const MAIN_GROUP_ID = "main";
+
+/** the files validated in the background when the `projectDiagnostics` option is enabled. */
+const PROJECT_FILE_REGEXP = /\.([cm]?[jt]sx?|css|less|scss|jsonc?|html?)$/;
+
 type FileSystemWatcher = {
   pathname: string;
   recursive?: boolean;
   handle: (kind: "create" | "modify" | "remove", filename: string, type?: number, context?: any) => void;
 };
 
-/** workspace file system using IndexedDB. */
-class IndexedDBFileSystem implements FileSystem {
+/** base class of the built-in file systems, manages the watchers. */
+abstract class WatchableFileSystem {
   private _watchers = new Set<FileSystemWatcher>();
+
+  watch(filename: string, handle: FileSystemWatcher["handle"]): () => void;
+  watch(filename: string, options: { recursive: boolean }, handle: FileSystemWatcher["handle"]): () => void;
+  watch(
+    filename: string,
+    handleOrOptions: FileSystemWatcher["handle"] | { recursive: boolean },
+    handle?: FileSystemWatcher["handle"],
+  ): () => void {
+    const options = typeof handleOrOptions === "function" ? undefined : handleOrOptions;
+    handle = typeof handleOrOptions === "function" ? handleOrOptions : handle!;
+    if (typeof handle !== "function") {
+      throw new TypeError("handle must be a function");
+    }
+    const watcher: FileSystemWatcher = { pathname: filenameToURL(filename).pathname, recursive: options?.recursive ?? false, handle };
+    this._watchers.add(watcher);
+    return () => {
+      this._watchers.delete(watcher);
+    };
+  }
+
+  protected _notify(kind: "create" | "modify" | "remove", pathname: string, type?: number, context?: any) {
+    for (const watcher of this._watchers) {
+      if (
+        watcher.pathname === pathname || (watcher.recursive && (watcher.pathname === "/" || pathname.startsWith(watcher.pathname + "/")))
+      ) {
+        watcher.handle(kind, pathname, type, context);
+      }
+    }
+  }
+
+  /** send one notification per affected path of a committed batch. */
+  protected _notifyChanges(changes: [string, StagedEntry][], oldStats: Map<string, FileStat>) {
+    const staged = new Map(changes);
+    for (const [pathname, { type }] of oldStats) {
+      if (!staged.get(pathname)) {
+        this._notify("remove", pathname, type);
+      }
+    }
+    for (const [pathname, entry] of changes) {
+      if (entry) {
+        const oldStat = oldStats.get(pathname);
+        if (oldStat?.type !== entry.type) {
+          this._notify("create", pathname, entry.type);
+        } else if (entry.type === 1) {
+          this._notify("modify", pathname, 1);
+        }
+      }
+    }
+  }
+}
+
+/** workspace file system using IndexedDB. */
+export class IndexedDBFileSystem extends WatchableFileSystem implements FileSystem {
   private _db: WorkspaceDatabase;
 
   constructor(scope: string) {
+    super();
     this._db = new WorkspaceDatabase(
       scope,
       { name: "fs-meta", keyPath: "url" },
@@ -201,6 +943,11 @@ class IndexedDBFileSystem implements FileSystem {
     );
   }
 
+  /** close the database connection, the filesystem can't be used after closing. */
+  async close(): Promise<void> {
+    await this._db.close();
+  }
+
   private async _getIdbObjectStore(storeName: string, readwrite = false): Promise<IDBObjectStore> {
     const db = await this._db.open();
     return db.transaction(storeName, readwrite ? "readwrite" : "readonly").objectStore(storeName);
@@ -388,45 +1135,147 @@ class IndexedDBFileSystem implements FileSystem {
   }
 
   async copy(source: string, target: string, options?: { overwrite: boolean }): Promise<void> {
-    throw new Error("Method not implemented.");
-  }
-
-  async rename(oldName: string, newName: string, options?: { overwrite: boolean }): Promise<void> {
-    const { href: oldUrl, pathname: oldPath } = filenameToURL(oldName);
-    const { href: newUrl, pathname: newPath } = filenameToURL(newName);
-    const oldStat = await this.stat(oldUrl);
+    const { href: sourceUrl, pathname: sourcePath } = filenameToURL(source);
+    const { href: targetUrl, pathname: targetPath } = filenameToURL(target);
+    const sourceStat = await this.stat(sourceUrl);
+    if (isSubpath(sourcePath, targetPath) || isSubpath(targetPath, sourcePath)) {
+      throw new Error(`copy ${sourceUrl} to ${targetUrl}: invalid argument`);
+    }
+    let targetStat: FileStat | null = null;
     try {
-      const stat = await this.stat(newUrl);
-      if (!options?.overwrite) {
-        throw new Error(`rename ${oldUrl} to ${newUrl}: file exists`);
-      }
-      await this.delete(newUrl, stat.type === 2 ? { recursive: true } : undefined);
+      targetStat = await this.stat(targetUrl);
     } catch (error) {
       if (!(error instanceof NotFoundError)) {
         throw error;
       }
     }
-    const newPathDirname = newPath.slice(0, newPath.lastIndexOf("/"));
-    if (newPathDirname) {
+    if (targetStat && !options?.overwrite) {
+      throw new Error(`copy ${sourceUrl} to ${targetUrl}: file exists`);
+    }
+    const targetPathDirname = targetPath.slice(0, targetPath.lastIndexOf("/"));
+    if (targetPathDirname) {
       try {
-        if ((await this.stat(newPathDirname)).type !== 2) {
-          throw new Error(`rename ${oldUrl} to ${newUrl}: Not a directory`);
+        if ((await this.stat(targetPathDirname)).type !== 2) {
+          throw new Error(`copy ${sourceUrl} to ${targetUrl}: Not a directory`);
         }
       } catch (error) {
         if (error instanceof NotFoundError) {
-          throw new Error(`rename ${oldUrl} to ${newUrl}: No such file or directory`);
+          throw new Error(`copy ${sourceUrl} to ${targetUrl}: No such file or directory`);
         }
         throw error;
       }
     }
+
+    // all the reads and writes below share one transaction, so the copy is atomic
     const [metaStore, blobStore] = await this._getIdbObjectStores(true);
-    const promises: Promise<any>[] = [
-      promisifyIDBRequest(metaStore.delete(oldUrl)),
-      promisifyIDBRequest(metaStore.put({ ...oldStat, url: newUrl })),
-    ];
-    const renameBlob = (oldUrl: string, newUrl: string) =>
-      openIDBCursor(blobStore, IDBKeyRange.only(oldUrl), (cursor) => {
-        promises.push(promisifyIDBRequest(blobStore.put({ url: newUrl, content: cursor.value.content })));
+    const entries: (FileStat & { url: string })[] = [{ ...sourceStat, url: sourceUrl }];
+    const removed = new Map<string, FileStat>();
+    if (sourceStat.type === 2) {
+      const dirUrl = sourceUrl + "/";
+      await openIDBCursor(metaStore, IDBKeyRange.lowerBound(dirUrl, true), (cursor) => {
+        const stat = cursor.value;
+        if (stat.url.startsWith(dirUrl)) {
+          entries.push(stat);
+          return true;
+        }
+        return false;
+      });
+    }
+    if (targetStat) {
+      const promises: Promise<any>[] = [
+        promisifyIDBRequest(metaStore.delete(targetUrl)),
+        promisifyIDBRequest(blobStore.delete(targetUrl)),
+      ];
+      removed.set(targetUrl, targetStat);
+      if (targetStat.type === 2) {
+        const dirUrl = targetUrl + "/";
+        promises.push(openIDBCursor(metaStore, IDBKeyRange.lowerBound(dirUrl, true), (cursor) => {
+          const stat = cursor.value;
+          if (stat.url.startsWith(dirUrl)) {
+            if (stat.type === 1) {
+              promises.push(promisifyIDBRequest(blobStore.delete(stat.url)));
+            }
+            promises.push(promisifyIDBRequest(cursor.delete()));
+            removed.set(stat.url, stat);
+            return true;
+          }
+          return false;
+        }));
+      }
+      await Promise.all(promises);
+    }
+    const now = Date.now();
+    const promises: Promise<any>[] = [];
+    const copyBlob = async (sourceUrl: string, targetUrl: string) => {
+      const file = await promisifyIDBRequest<{ content: Uint8Array } | undefined>(blobStore.get(sourceUrl));
+      if (file) {
+        await promisifyIDBRequest(blobStore.put({ url: targetUrl, content: file.content }));
+      }
+    };
+    const created: [string, number, boolean][] = [];
+    for (const { url, type, size } of entries) {
+      const newUrl = targetUrl + url.slice(sourceUrl.length);
+      const oldStat = removed.get(newUrl);
+      const replaced = oldStat?.type === type;
+      const stat: FileStat = { type, version: replaced ? oldStat.version + 1 : 1, ctime: now, mtime: now, size };
+      promises.push(promisifyIDBRequest(metaStore.put({ url: newUrl, ...stat })));
+      if (type === 1) {
+        promises.push(copyBlob(url, newUrl));
+      }
+      created.push([new URL(newUrl).pathname, type, replaced]);
+      if (replaced) {
+        removed.delete(newUrl);
+      }
+    }
+    await Promise.all(promises);
+    for (const [url, { type }] of removed) {
+      this._notify("remove", new URL(url).pathname, type);
+    }
+    for (const [pathname, type, replaced] of created) {
+      if (!replaced) {
+        this._notify("create", pathname, type);
+      } else if (type === 1) {
+        this._notify("modify", pathname, type);
+      }
+    }
+  }
+
+  async rename(oldName: string, newName: string, options?: { overwrite: boolean }): Promise<void> {
+    const { href: oldUrl, pathname: oldPath } = filenameToURL(oldName);
+    const { href: newUrl, pathname: newPath } = filenameToURL(newName);
+    const oldStat = await this.stat(oldUrl);
+    try {
+      const stat = await this.stat(newUrl);
+      if (!options?.overwrite) {
+        throw new Error(`rename ${oldUrl} to ${newUrl}: file exists`);
+      }
+      await this.delete(newUrl, stat.type === 2 ? { recursive: true } : undefined);
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+    }
+    const newPathDirname = newPath.slice(0, newPath.lastIndexOf("/"));
+    if (newPathDirname) {
+      try {
+        if ((await this.stat(newPathDirname)).type !== 2) {
+          throw new Error(`rename ${oldUrl} to ${newUrl}: Not a directory`);
+        }
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          throw new Error(`rename ${oldUrl} to ${newUrl}: No such file or directory`);
+        }
+        throw error;
+      }
+    }
+    const [metaStore, blobStore] = await this._getIdbObjectStores(true);
+    const promises: Promise<any>[] = [
+      promisifyIDBRequest(metaStore.delete(oldUrl)),
+      promisifyIDBRequest(metaStore.put({ ...oldStat, url: newUrl })),
+    ];
+    const renameBlob = (oldUrl: string, newUrl: string) =>
+      openIDBCursor(blobStore, IDBKeyRange.only(oldUrl), (cursor) => {
+        promises.push(promisifyIDBRequest(blobStore.put({ url: newUrl, content: cursor.value.content })));
         promises.push(promisifyIDBRequest(cursor.delete()));
       });
     const moved: [string, string, number][] = [[oldPath, newPath, oldStat.type]];
@@ -437,61 +1286,1758 @@ class IndexedDBFileSystem implements FileSystem {
       if (!dirUrl.endsWith("/")) {
         dirUrl += "/";
       }
-      const renamingChildren = openIDBCursor(
-        metaStore,
-        IDBKeyRange.lowerBound(dirUrl, true),
-        (cursor) => {
-          const stat = cursor.value;
-          if (stat.url.startsWith(dirUrl)) {
-            const url = newUrl + stat.url.slice(dirUrl.length - 1);
-            if (stat.type === 1) {
-              promises.push(renameBlob(stat.url, url));
-            }
-            promises.push(promisifyIDBRequest(metaStore.put({ ...stat, url })));
-            promises.push(promisifyIDBRequest(cursor.delete()));
-            moved.push([new URL(stat.url).pathname, new URL(url).pathname, stat.type]);
-            return true;
-          }
-          return false;
-        },
-      );
-      promises.push(renamingChildren);
+      const renamingChildren = openIDBCursor(
+        metaStore,
+        IDBKeyRange.lowerBound(dirUrl, true),
+        (cursor) => {
+          const stat = cursor.value;
+          if (stat.url.startsWith(dirUrl)) {
+            const url = newUrl + stat.url.slice(dirUrl.length - 1);
+            if (stat.type === 1) {
+              promises.push(renameBlob(stat.url, url));
+            }
+            promises.push(promisifyIDBRequest(metaStore.put({ ...stat, url })));
+            promises.push(promisifyIDBRequest(cursor.delete()));
+            moved.push([new URL(stat.url).pathname, new URL(url).pathname, stat.type]);
+            return true;
+          }
+          return false;
+        },
+      );
+      promises.push(renamingChildren);
+    }
+    await Promise.all(promises);
+    for (const [oldPath, newPath, type] of moved) {
+      this._notify("remove", oldPath, type);
+      this._notify("create", newPath, type);
+    }
+  }
+
+  async batch(callback: (tx: FileSystemTransaction) => void | Promise<void>): Promise<void> {
+    const changes = await new StagedTransaction(this).run(callback);
+    if (changes.length === 0) {
+      return;
+    }
+    const [metaStore, blobStore] = await this._getIdbObjectStores(true);
+    const transaction = metaStore.transaction;
+    const committed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = transaction.onabort = () => reject(transaction.error);
+    });
+
+    // remove the deleted/replaced entries first, then write the new ones
+    const oldStats = new Map<string, FileStat>();
+    const promises: Promise<any>[] = [];
+    for (const [pathname, entry] of changes) {
+      const url = filenameToURL(pathname).href;
+      promises.push(promisifyIDBRequest<FileStat | undefined>(metaStore.get(url)).then((stat) => {
+        if (stat) {
+          oldStats.set(pathname, stat);
+        }
+      }));
+      if (entry === null || entry.opaque) {
+        promises.push(promisifyIDBRequest(metaStore.delete(url)), promisifyIDBRequest(blobStore.delete(url)));
+        promises.push(openIDBCursor(metaStore, IDBKeyRange.bound(url + "/", url + "0", false, true), (cursor) => {
+          const stat = cursor.value;
+          oldStats.set(new URL(stat.url).pathname, stat);
+          blobStore.delete(stat.url);
+          cursor.delete();
+        }));
+      }
+    }
+    await Promise.all(promises);
+    const now = Date.now();
+    for (const [pathname, entry] of changes) {
+      if (entry) {
+        const url = filenameToURL(pathname).href;
+        const oldStat = oldStats.get(pathname);
+        const replaced = oldStat?.type === entry.type;
+        const stat: FileStat = {
+          type: entry.type,
+          version: replaced ? oldStat.version + 1 : 1,
+          ctime: replaced ? oldStat.ctime : now,
+          mtime: now,
+          size: entry.type === 1 ? entry.content.byteLength : 0,
+        };
+        metaStore.put({ url, ...stat });
+        if (entry.type === 1) {
+          blobStore.put({ url, content: entry.content });
+        }
+      }
+    }
+    await committed;
+
+    this._notifyChanges(changes, oldStats);
+  }
+}
+
+type MemoryEntry = FileStat & { content?: Uint8Array };
+
+/** workspace file system in memory, the data is lost when the page is closed. */
+export class MemoryFileSystem extends WatchableFileSystem implements FileSystem {
+  private _entries = new Map<string, MemoryEntry>();
+
+  constructor(initialFiles?: Record<string, string | Uint8Array>) {
+    super();
+    const now = Date.now();
+    for (const [name, content] of Object.entries(initialFiles ?? {})) {
+      const { pathname } = filenameToURL(name);
+      let dir = "";
+      for (const segment of pathname.split("/").slice(1, -1)) {
+        dir += "/" + segment;
+        if (!this._entries.has(dir)) {
+          this._entries.set(dir, { type: 2, version: 1, ctime: now, mtime: now, size: 0 });
+        }
+      }
+      const data = typeof content === "string" ? encode(content) : content.slice();
+      this._entries.set(pathname, { type: 1, version: 1, ctime: now, mtime: now, size: data.byteLength, content: data });
+    }
+  }
+
+  /** list all the entries under the directory, sorted by path. */
+  private _descendants(pathname: string): string[] {
+    const dir = pathname === "/" ? "/" : pathname + "/";
+    return [...this._entries.keys()].filter((path) => path.startsWith(dir)).sort();
+  }
+
+  async stat(name: string): Promise<FileStat> {
+    const { pathname, href: url } = filenameToURL(name);
+    if (pathname === "/") {
+      return { type: 2, version: 1, ctime: 0, mtime: 0, size: 0 };
+    }
+    const entry = this._entries.get(pathname);
+    if (!entry) {
+      throw new NotFoundError(url);
+    }
+    const { type, version, ctime, mtime, size } = entry;
+    return { type, version, ctime, mtime, size };
+  }
+
+  async createDirectory(name: string): Promise<void> {
+    const { pathname } = filenameToURL(name);
+    const now = Date.now();
+    const newDirs: string[] = [];
+    let dir = "";
+    for (const segment of pathname.split("/").filter(Boolean)) {
+      dir += "/" + segment;
+      const entry = this._entries.get(dir);
+      if (!entry) {
+        this._entries.set(dir, { type: 2, version: 1, ctime: now, mtime: now, size: 0 });
+        newDirs.push(dir);
+      } else if (entry.type !== 2) {
+        throw new Error(`mkdir ${pathname}: not a directory`);
+      }
+    }
+    for (const dir of newDirs) {
+      this._notify("create", dir, 2);
+    }
+  }
+
+  async readDirectory(name: string): Promise<[string, number][]> {
+    const { pathname } = filenameToURL(name);
+    const stat = await this.stat(name);
+    if (stat.type !== 2) {
+      throw new Error(`read ${pathname}: not a directory`);
+    }
+    const dir = pathname === "/" ? "/" : pathname + "/";
+    const entries: [string, number][] = [];
+    for (const path of this._descendants(pathname)) {
+      const name = path.slice(dir.length);
+      if (!name.includes("/")) {
+        entries.push([name, this._entries.get(path)!.type]);
+      }
+    }
+    return entries;
+  }
+
+  async readFile(name: string): Promise<Uint8Array> {
+    const { pathname, href: url } = filenameToURL(name);
+    const entry = this._entries.get(pathname);
+    if (!entry?.content) {
+      throw new NotFoundError(url);
+    }
+    return entry.content.slice();
+  }
+
+  async readTextFile(filename: string): Promise<string> {
+    return this.readFile(filename).then(decode);
+  }
+
+  async writeFile(name: string, content: string | Uint8Array, context?: any): Promise<void> {
+    const { pathname } = filenameToURL(name);
+    const dir = pathname.slice(0, pathname.lastIndexOf("/"));
+    if (dir) {
+      const parent = this._entries.get(dir);
+      if (!parent) {
+        throw new Error(`write ${pathname}: no such file or directory`);
+      }
+      if (parent.type !== 2) {
+        throw new Error(`write ${pathname}: not a directory`);
+      }
+    }
+    const oldEntry = this._entries.get(pathname);
+    if (oldEntry?.type === 2) {
+      throw new Error(`write ${pathname}: is a directory`);
+    }
+    const data = typeof content === "string" ? encode(content) : content.slice();
+    const now = Date.now();
+    this._entries.set(pathname, {
+      type: 1,
+      version: (oldEntry?.version ?? 0) + 1,
+      ctime: oldEntry?.ctime ?? now,
+      mtime: now,
+      size: data.byteLength,
+      content: data,
+    });
+    this._notify(oldEntry ? "modify" : "create", pathname, 1, context);
+  }
+
+  async delete(name: string, options?: { recursive: boolean }): Promise<void> {
+    const { pathname, href: url } = filenameToURL(name);
+    const stat = await this.stat(url);
+    const removed: [string, number][] = pathname === "/" ? [] : [[pathname, stat.type]];
+    if (stat.type === 2) {
+      const descendants = this._descendants(pathname);
+      if (descendants.length > 0 && !options?.recursive) {
+        throw new Error(`delete ${url}: directory not empty`);
+      }
+      removed.push(...descendants.map((path): [string, number] => [path, this._entries.get(path)!.type]));
+    }
+    for (const [path] of removed) {
+      this._entries.delete(path);
+    }
+    for (const [path, type] of removed) {
+      this._notify("remove", path, type);
+    }
+  }
+
+  async copy(source: string, target: string, options?: { overwrite: boolean }): Promise<void> {
+    const { href: sourceUrl, pathname: sourcePath } = filenameToURL(source);
+    const { href: targetUrl, pathname: targetPath } = filenameToURL(target);
+    const sourceStat = await this.stat(sourceUrl);
+    if (isSubpath(sourcePath, targetPath) || isSubpath(targetPath, sourcePath)) {
+      throw new Error(`copy ${sourceUrl} to ${targetUrl}: invalid argument`);
+    }
+    this._checkTarget("copy", sourceUrl, targetUrl, options);
+    const removed = new Map<string, FileStat>();
+    if (this._entries.has(targetPath)) {
+      for (const path of [targetPath, ...this._descendants(targetPath)]) {
+        removed.set(path, this._entries.get(path)!);
+        this._entries.delete(path);
+      }
+    }
+    const now = Date.now();
+    const created: [string, number, boolean][] = [];
+    const paths = sourceStat.type === 2 ? [sourcePath, ...this._descendants(sourcePath)] : [sourcePath];
+    for (const path of paths) {
+      const { type, size, content } = this._entries.get(path)!;
+      const newPath = targetPath + path.slice(sourcePath.length);
+      const oldStat = removed.get(newPath);
+      const replaced = oldStat?.type === type;
+      this._entries.set(newPath, { type, version: replaced ? oldStat.version + 1 : 1, ctime: now, mtime: now, size, content });
+      created.push([newPath, type, replaced]);
+      if (replaced) {
+        removed.delete(newPath);
+      }
+    }
+    for (const [path, { type }] of removed) {
+      this._notify("remove", path, type);
+    }
+    for (const [path, type, replaced] of created) {
+      if (!replaced) {
+        this._notify("create", path, type);
+      } else if (type === 1) {
+        this._notify("modify", path, type);
+      }
+    }
+  }
+
+  async rename(oldName: string, newName: string, options?: { overwrite: boolean }): Promise<void> {
+    const { href: oldUrl, pathname: oldPath } = filenameToURL(oldName);
+    const { href: newUrl, pathname: newPath } = filenameToURL(newName);
+    const oldStat = await this.stat(oldUrl);
+    if (isSubpath(oldPath, newPath)) {
+      throw new Error(`rename ${oldUrl} to ${newUrl}: invalid argument`);
+    }
+    const newEntry = this._checkTarget("rename", oldUrl, newUrl, options);
+    if (newEntry) {
+      await this.delete(newUrl, newEntry.type === 2 ? { recursive: true } : undefined);
+    }
+    const paths = oldStat.type === 2 ? [oldPath, ...this._descendants(oldPath)] : [oldPath];
+    const moved: [string, string, MemoryEntry][] = paths.map((
+      path,
+    ) => [path, newPath + path.slice(oldPath.length), this._entries.get(path)!]);
+    for (const [path] of moved) {
+      this._entries.delete(path);
+    }
+    for (const [, path, entry] of moved) {
+      this._entries.set(path, entry);
+    }
+    for (const [oldPath, newPath, { type }] of moved) {
+      this._notify("remove", oldPath, type);
+      this._notify("create", newPath, type);
+    }
+  }
+
+  /** check the target of copy/rename, returns the existing target entry. */
+  private _checkTarget(op: string, sourceUrl: string, targetUrl: string, options?: { overwrite: boolean }): MemoryEntry | undefined {
+    const targetPath = new URL(targetUrl).pathname;
+    const entry = this._entries.get(targetPath);
+    if (entry && !options?.overwrite) {
+      throw new Error(`${op} ${sourceUrl} to ${targetUrl}: file exists`);
+    }
+    const dir = targetPath.slice(0, targetPath.lastIndexOf("/"));
+    if (dir) {
+      const parent = this._entries.get(dir);
+      if (!parent) {
+        throw new Error(`${op} ${sourceUrl} to ${targetUrl}: No such file or directory`);
+      }
+      if (parent.type !== 2) {
+        throw new Error(`${op} ${sourceUrl} to ${targetUrl}: Not a directory`);
+      }
+    }
+    return entry;
+  }
+
+  async batch(callback: (tx: FileSystemTransaction) => void | Promise<void>): Promise<void> {
+    const changes = await new StagedTransaction(this).run(callback);
+    const oldStats = new Map<string, FileStat>();
+    for (const [pathname, entry] of changes) {
+      const oldEntry = this._entries.get(pathname);
+      if (oldEntry) {
+        oldStats.set(pathname, oldEntry);
+      }
+      if (entry === null || entry.opaque) {
+        for (const path of [pathname, ...this._descendants(pathname)]) {
+          if (this._entries.has(path)) {
+            oldStats.set(path, this._entries.get(path)!);
+            this._entries.delete(path);
+          }
+        }
+      }
+    }
+    const now = Date.now();
+    for (const [pathname, entry] of changes) {
+      if (entry) {
+        const oldStat = oldStats.get(pathname);
+        const replaced = oldStat?.type === entry.type;
+        const content = entry.type === 1 ? entry.content.slice() : undefined;
+        this._entries.set(pathname, {
+          type: entry.type,
+          version: replaced ? oldStat.version + 1 : 1,
+          ctime: replaced ? oldStat.ctime : now,
+          mtime: now,
+          size: content?.byteLength ?? 0,
+          content,
+        });
+      }
+    }
+    this._notifyChanges(changes, oldStats);
+  }
+}
+
+/** workspace file system backed by a `FileSystemDirectoryHandle`. */
+abstract class DirectoryHandleFileSystem extends WatchableFileSystem implements FileSystem {
+  protected abstract _getRoot(): Promise<FileSystemDirectoryHandle>;
+
+  /** list the entries of the directory, `ancestors` are the handles from the root to the directory. */
+  protected async _entries(
+    handle: FileSystemDirectoryHandle,
+    ancestors: FileSystemDirectoryHandle[],
+  ): Promise<[string, FileSystemDirectoryHandle | FileSystemFileHandle][]> {
+    const entries: [string, FileSystemDirectoryHandle | FileSystemFileHandle][] = [];
+    for await (const entry of handle.entries()) {
+      entries.push(entry);
+    }
+    return entries;
+  }
+
+  /** get the handles from the root to the given path, returns `null` if not found. */
+  private async _resolve(pathname: string): Promise<(FileSystemDirectoryHandle | FileSystemFileHandle)[] | null> {
+    const handles: (FileSystemDirectoryHandle | FileSystemFileHandle)[] = [await this._getRoot()];
+    for (const name of pathname.split("/").filter(Boolean)) {
+      const handle = handles.at(-1)!;
+      if (handle.kind !== "directory") {
+        return null;
+      }
+      try {
+        handles.push(await handle.getFileHandle(name));
+      } catch (error) {
+        if (isDOMError(error, "TypeMismatchError")) {
+          handles.push(await handle.getDirectoryHandle(name));
+        } else if (isDOMError(error, "NotFoundError")) {
+          return null;
+        } else {
+          throw error;
+        }
+      }
+    }
+    return handles;
+  }
+
+  /** get the handle of the given path, returns `null` if not found. */
+  private async _getHandle(pathname: string): Promise<FileSystemDirectoryHandle | FileSystemFileHandle | null> {
+    return (await this._resolve(pathname))?.at(-1) ?? null;
+  }
+
+  /** get the directory handle of the given path, creates the missing directories if `create` is true. */
+  private async _getDirectory(pathname: string, create = false): Promise<FileSystemDirectoryHandle | null> {
+    let handle = await this._getRoot();
+    for (const name of pathname.split("/").filter(Boolean)) {
+      try {
+        handle = await handle.getDirectoryHandle(name, { create });
+      } catch (error) {
+        if (isDOMError(error, "TypeMismatchError")) {
+          throw new Error(`open ${pathname}: not a directory`);
+        }
+        if (isDOMError(error, "NotFoundError")) {
+          return null;
+        }
+        throw error;
+      }
+    }
+    return handle;
+  }
+
+  /** list all the entries under the directory. */
+  protected async _walk(pathname: string): Promise<[string, number][]> {
+    const handles = await this._resolve(pathname);
+    const handle = handles?.at(-1);
+    if (handle?.kind !== "directory") {
+      return [];
+    }
+    const entries: [string, number][] = [];
+    const walk = async (dir: string, ancestors: FileSystemDirectoryHandle[]) => {
+      for (const [name, child] of await this._entries(ancestors.at(-1)!, ancestors)) {
+        const path = (dir === "/" ? "" : dir) + "/" + name;
+        if (child.kind === "directory") {
+          entries.push([path, 2]);
+          await walk(path, [...ancestors, child]);
+        } else {
+          entries.push([path, 1]);
+        }
+      }
+    };
+    await walk(pathname, handles as FileSystemDirectoryHandle[]);
+    return entries;
+  }
+
+  private async _write(pathname: string, content: Uint8Array): Promise<void> {
+    const dir = await this._getDirectory(pathname.slice(0, pathname.lastIndexOf("/")));
+    if (!dir) {
+      throw new NotFoundError(pathname);
+    }
+    const fileHandle = await dir.getFileHandle(pathname.slice(pathname.lastIndexOf("/") + 1), { create: true });
+    const writable = await fileHandle.createWritable();
+    await writable.write(content as Uint8Array<ArrayBuffer>);
+    await writable.close();
+  }
+
+  private async _remove(pathname: string): Promise<void> {
+    if (pathname === "/") {
+      const root = await this._getRoot();
+      for await (const name of root.keys()) {
+        await root.removeEntry(name, { recursive: true });
+      }
+      return;
+    }
+    const dir = await this._getDirectory(pathname.slice(0, pathname.lastIndexOf("/")));
+    try {
+      await dir?.removeEntry(pathname.slice(pathname.lastIndexOf("/") + 1), { recursive: true });
+    } catch (error) {
+      if (!isDOMError(error, "NotFoundError")) {
+        throw error;
+      }
+    }
+  }
+
+  private async _copy(source: string, target: string, type: number): Promise<void> {
+    if (type === 2) {
+      await this._getDirectory(target, true);
+      for (const [path, type] of await this._walk(source)) {
+        const newPath = target + path.slice(source.length);
+        if (type === 2) {
+          await this._getDirectory(newPath, true);
+        } else {
+          await this._write(newPath, await this.readFile(path));
+        }
+      }
+    } else {
+      await this._write(target, await this.readFile(source));
+    }
+  }
+
+  protected async _statOrNull(pathname: string): Promise<FileStat | null> {
+    try {
+      return await this.stat(pathname);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /** check the parent directory of the target of copy/rename. */
+  private async _checkTargetDirectory(op: string, sourceUrl: string, targetUrl: string): Promise<void> {
+    const targetPath = new URL(targetUrl).pathname;
+    const dir = targetPath.slice(0, targetPath.lastIndexOf("/"));
+    if (dir) {
+      const stat = await this._statOrNull(dir);
+      if (!stat) {
+        throw new Error(`${op} ${sourceUrl} to ${targetUrl}: No such file or directory`);
+      }
+      if (stat.type !== 2) {
+        throw new Error(`${op} ${sourceUrl} to ${targetUrl}: Not a directory`);
+      }
+    }
+  }
+
+  async stat(name: string): Promise<FileStat> {
+    const { pathname, href: url } = filenameToURL(name);
+    const handle = await this._getHandle(pathname);
+    if (!handle) {
+      throw new NotFoundError(url);
+    }
+    if (handle.kind === "directory") {
+      return { type: 2, version: 1, ctime: 0, mtime: 0, size: 0 };
+    }
+    const file = await handle.getFile();
+    // OPFS doesn't keep a version number, use the last modified time that increases on every write instead
+    return { type: 1, version: file.lastModified, ctime: 0, mtime: file.lastModified, size: file.size };
+  }
+
+  async createDirectory(name: string): Promise<void> {
+    const { pathname } = filenameToURL(name);
+    const newDirs: string[] = [];
+    let dir = "";
+    for (const segment of pathname.split("/").filter(Boolean)) {
+      dir += "/" + segment;
+      const stat = await this._statOrNull(dir);
+      if (!stat) {
+        newDirs.push(dir);
+      } else if (stat.type !== 2) {
+        throw new Error(`mkdir ${pathname}: not a directory`);
+      }
+    }
+    await this._getDirectory(pathname, true);
+    for (const dir of newDirs) {
+      this._notify("create", dir, 2);
+    }
+  }
+
+  async readDirectory(name: string): Promise<[string, number][]> {
+    const { pathname, href: url } = filenameToURL(name);
+    const handles = await this._resolve(pathname);
+    const handle = handles?.at(-1);
+    if (!handle) {
+      throw new NotFoundError(url);
+    }
+    if (handle.kind !== "directory") {
+      throw new Error(`read ${pathname}: not a directory`);
+    }
+    const entries: [string, number][] = [];
+    for (const [name, child] of await this._entries(handle, handles as FileSystemDirectoryHandle[])) {
+      entries.push([name, child.kind === "directory" ? 2 : 1]);
+    }
+    return entries.sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0);
+  }
+
+  async readFile(name: string): Promise<Uint8Array> {
+    const { pathname, href: url } = filenameToURL(name);
+    const handle = await this._getHandle(pathname);
+    if (handle?.kind !== "file") {
+      throw new NotFoundError(url);
+    }
+    return new Uint8Array(await (await handle.getFile()).arrayBuffer());
+  }
+
+  async readTextFile(filename: string): Promise<string> {
+    return this.readFile(filename).then(decode);
+  }
+
+  async writeFile(name: string, content: string | Uint8Array, context?: any): Promise<void> {
+    const { pathname } = filenameToURL(name);
+    const dir = pathname.slice(0, pathname.lastIndexOf("/"));
+    if (dir) {
+      const stat = await this._statOrNull(dir);
+      if (!stat) {
+        throw new Error(`write ${pathname}: no such file or directory`);
+      }
+      if (stat.type !== 2) {
+        throw new Error(`write ${pathname}: not a directory`);
+      }
+    }
+    const oldStat = await this._statOrNull(pathname);
+    if (oldStat?.type === 2) {
+      throw new Error(`write ${pathname}: is a directory`);
+    }
+    await this._write(pathname, encode(content));
+    this._notify(oldStat ? "modify" : "create", pathname, 1, context);
+  }
+
+  async delete(name: string, options?: { recursive: boolean }): Promise<void> {
+    const { pathname, href: url } = filenameToURL(name);
+    const stat = await this.stat(url);
+    const removed: [string, number][] = pathname === "/" ? [] : [[pathname, stat.type]];
+    if (stat.type === 2) {
+      const descendants = await this._walk(pathname);
+      if (descendants.length > 0 && !options?.recursive) {
+        throw new Error(`delete ${url}: directory not empty`);
+      }
+      removed.push(...descendants);
+    }
+    await this._remove(pathname);
+    for (const [path, type] of removed) {
+      this._notify("remove", path, type);
+    }
+  }
+
+  async copy(source: string, target: string, options?: { overwrite: boolean }): Promise<void> {
+    const { href: sourceUrl, pathname: sourcePath } = filenameToURL(source);
+    const { href: targetUrl, pathname: targetPath } = filenameToURL(target);
+    const sourceStat = await this.stat(sourceUrl);
+    if (isSubpath(sourcePath, targetPath) || isSubpath(targetPath, sourcePath)) {
+      throw new Error(`copy ${sourceUrl} to ${targetUrl}: invalid argument`);
+    }
+    const targetStat = await this._statOrNull(targetPath);
+    if (targetStat && !options?.overwrite) {
+      throw new Error(`copy ${sourceUrl} to ${targetUrl}: file exists`);
+    }
+    await this._checkTargetDirectory("copy", sourceUrl, targetUrl);
+    const removed = new Map<string, number>();
+    if (targetStat) {
+      removed.set(targetPath, targetStat.type);
+      for (const [path, type] of await this._walk(targetPath)) {
+        removed.set(path, type);
+      }
+      await this._remove(targetPath);
+    }
+    const created: [string, number][] = [[targetPath, sourceStat.type]];
+    for (const [path, type] of await this._walk(sourcePath)) {
+      created.push([targetPath + path.slice(sourcePath.length), type]);
+    }
+    await this._copy(sourcePath, targetPath, sourceStat.type);
+    for (const [path, type] of removed) {
+      if (!created.some(([p, t]) => p === path && t === type)) {
+        this._notify("remove", path, type);
+      }
+    }
+    for (const [path, type] of created) {
+      if (removed.get(path) !== type) {
+        this._notify("create", path, type);
+      } else if (type === 1) {
+        this._notify("modify", path, type);
+      }
+    }
+  }
+
+  async rename(oldName: string, newName: string, options?: { overwrite: boolean }): Promise<void> {
+    const { href: oldUrl, pathname: oldPath } = filenameToURL(oldName);
+    const { href: newUrl, pathname: newPath } = filenameToURL(newName);
+    const oldStat = await this.stat(oldUrl);
+    if (isSubpath(oldPath, newPath)) {
+      throw new Error(`rename ${oldUrl} to ${newUrl}: invalid argument`);
+    }
+    const newStat = await this._statOrNull(newPath);
+    if (newStat) {
+      if (!options?.overwrite) {
+        throw new Error(`rename ${oldUrl} to ${newUrl}: file exists`);
+      }
+      await this.delete(newUrl, newStat.type === 2 ? { recursive: true } : undefined);
+    }
+    await this._checkTargetDirectory("rename", oldUrl, newUrl);
+    const moved: [string, string, number][] = [[oldPath, newPath, oldStat.type]];
+    for (const [path, type] of await this._walk(oldPath)) {
+      moved.push([path, newPath + path.slice(oldPath.length), type]);
+    }
+    await this._copy(oldPath, newPath, oldStat.type);
+    await this._remove(oldPath);
+    for (const [oldPath, newPath, type] of moved) {
+      this._notify("remove", oldPath, type);
+      this._notify("create", newPath, type);
+    }
+  }
+
+  /**
+   * Run the callback with a transaction. File system handles don't support transactions, the changes are written
+   * one by one after the callback returns, and nothing is written if the callback throws.
+   */
+  async batch(callback: (tx: FileSystemTransaction) => void | Promise<void>): Promise<void> {
+    const changes = await new StagedTransaction(this).run(callback);
+    const oldStats = new Map<string, FileStat>();
+    for (const [pathname, entry] of changes) {
+      const stat = await this._statOrNull(pathname);
+      if (stat) {
+        oldStats.set(pathname, stat);
+        if (entry === null || entry.opaque) {
+          for (const [path, type] of await this._walk(pathname)) {
+            oldStats.set(path, { type: type as FileStat["type"], version: 0, ctime: 0, mtime: 0, size: 0 });
+          }
+        }
+      }
+    }
+    for (const [pathname, entry] of changes) {
+      if ((entry === null || entry.opaque) && oldStats.has(pathname)) {
+        await this._remove(pathname);
+      }
+      if (entry?.type === 1) {
+        await this._write(pathname, entry.content);
+      } else if (entry?.type === 2) {
+        await this._getDirectory(pathname, true);
+      }
+    }
+    this._notifyChanges(changes, oldStats);
+  }
+}
+
+/** workspace file system using the Origin Private File System (OPFS). */
+export class OPFSFileSystem extends DirectoryHandleFileSystem {
+  private _scope: string;
+  private _root?: Promise<FileSystemDirectoryHandle>;
+
+  constructor(scope: string) {
+    super();
+    this._scope = scope;
+  }
+
+  protected _getRoot(): Promise<FileSystemDirectoryHandle> {
+    return this._root ??= navigator.storage.getDirectory().then((root) => root.getDirectoryHandle(this._scope, { create: true }));
+  }
+
+  /**
+   * Copy the files of the IndexedDB workspace `modern-monaco-workspace(<name>)` into OPFS.
+   * The existing files are kept unless `overwrite` is true. Returns false if the database doesn't exist or nothing is copied.
+   */
+  async migrateFromIndexedDB(workspaceName = "default", options?: { overwrite?: boolean }): Promise<boolean> {
+    const dbName = "modern-monaco-workspace(" + workspaceName + ")";
+    if (!(await idbExists(dbName))) {
+      return false;
+    }
+    const source = new IndexedDBFileSystem(dbName);
+    let copied = 0;
+    try {
+      await this.batch(async (tx) => {
+        const walk = async (dir: string) => {
+          for (const [name, type] of await source.readDirectory(dir)) {
+            const path = (dir === "/" ? "" : dir) + "/" + name;
+            if (type === 2) {
+              if (!(await this._statOrNull(path))) {
+                await tx.createDirectory(path);
+                copied++;
+              }
+              await walk(path);
+            } else if (type === 1) {
+              if (options?.overwrite || !(await this._statOrNull(path))) {
+                await tx.writeFile(path, await source.readFile(path));
+                copied++;
+              }
+            }
+          }
+        };
+        await walk("/");
+      });
+    } finally {
+      await source.close();
+    }
+    return copied > 0;
+  }
+}
+
+/** check if the IndexedDB database exists without creating it, `indexedDB.databases()` is not available in all browsers. */
+function idbExists(name: string): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const openRequest = indexedDB.open(name);
+    let created = false;
+    openRequest.onupgradeneeded = () => {
+      // the database doesn't exist, abort the creation
+      created = true;
+      openRequest.transaction!.abort();
+    };
+    openRequest.onsuccess = () => {
+      openRequest.result.close();
+      resolve(true);
+    };
+    openRequest.onerror = (e) => {
+      if (created) {
+        e.preventDefault();
+        indexedDB.deleteDatabase(name);
+        resolve(false);
+      } else {
+        reject(openRequest.error);
+      }
+    };
+  });
+}
+
+type PermissionDirectoryHandle = FileSystemDirectoryHandle & {
+  queryPermission?(descriptor: { mode: "read" | "readwrite" }): Promise<PermissionState>;
+  requestPermission?(descriptor: { mode: "read" | "readwrite" }): Promise<PermissionState>;
+};
+
+type Snapshot = Map<string, { type: number; mtime: number; size: number } | null>;
+
+/** workspace file system using a local folder opened by the File System Access API. */
+export class LocalFileSystem extends DirectoryHandleFileSystem {
+  private _handle: PermissionDirectoryHandle;
+  private _mode: "read" | "readwrite";
+  private _pollInterval: number;
+  private _granted = false;
+  private _watcherCount = 0;
+  private _pollTimer?: ReturnType<typeof setTimeout>;
+  private _snapshot?: Snapshot;
+  private _touched?: Map<string, "create" | "modify" | "remove">;
+  private _pollFailed = false;
+
+  constructor(handle: FileSystemDirectoryHandle, options?: { mode?: "read" | "readwrite"; pollInterval?: number }) {
+    super();
+    this._handle = handle;
+    this._mode = options?.mode ?? "readwrite";
+    this._pollInterval = options?.pollInterval ?? 2000;
+  }
+
+  /** The name of the local folder. */
+  get name(): string {
+    return this._handle.name;
+  }
+
+  /**
+   * Request the permission to access the folder, for example when the handle is restored from IndexedDB
+   * after a page reload. Browsers only show the permission prompt during a user gesture.
+   */
+  async requestPermission(): Promise<boolean> {
+    const descriptor = { mode: this._mode };
+    if (typeof this._handle.queryPermission !== "function") {
+      // the browser doesn't support the permission API, assume the access is granted
+      return this._granted = true;
+    }
+    let state = await this._handle.queryPermission(descriptor);
+    if (state === "prompt" && typeof this._handle.requestPermission === "function") {
+      try {
+        state = await this._handle.requestPermission(descriptor);
+      } catch {
+        // requesting the permission without a user gesture throws a `SecurityError`
+      }
+    }
+    return this._granted = state === "granted";
+  }
+
+  protected async _getRoot(): Promise<FileSystemDirectoryHandle> {
+    if (!this._granted && !(await this.requestPermission())) {
+      throw new Error(`open ${this._handle.name}: permission denied`);
+    }
+    return this._handle;
+  }
+
+  /** skip the directories that resolve to one of their ancestors, for example symlink loops. */
+  protected async _entries(
+    handle: FileSystemDirectoryHandle,
+    ancestors: FileSystemDirectoryHandle[],
+  ): Promise<[string, FileSystemDirectoryHandle | FileSystemFileHandle][]> {
+    const entries: [string, FileSystemDirectoryHandle | FileSystemFileHandle][] = [];
+    for (const [name, child] of await super._entries(handle, ancestors)) {
+      if (child.kind === "directory" && (await Promise.all(ancestors.map((a) => child.isSameEntry(a)))).some(Boolean)) {
+        continue;
+      }
+      entries.push([name, child]);
+    }
+    return entries;
+  }
+
+  watch(filename: string, handle: FileSystemWatcher["handle"]): () => void;
+  watch(filename: string, options: { recursive: boolean }, handle: FileSystemWatcher["handle"]): () => void;
+  watch(
+    filename: string,
+    handleOrOptions: FileSystemWatcher["handle"] | { recursive: boolean },
+    handle?: FileSystemWatcher["handle"],
+  ): () => void {
+    const dispose = typeof handleOrOptions === "function"
+      ? super.watch(filename, handleOrOptions)
+      : super.watch(filename, handleOrOptions, handle!);
+    if (this._watcherCount++ === 0) {
+      this._poll();
+    }
+    let disposed = false;
+    return () => {
+      if (!disposed) {
+        disposed = true;
+        dispose();
+        if (--this._watcherCount === 0) {
+          clearTimeout(this._pollTimer);
+          this._pollTimer = undefined;
+          this._snapshot = undefined;
+        }
+      }
+    };
+  }
+
+  protected _notify(kind: "create" | "modify" | "remove", pathname: string, type?: number, context?: any) {
+    // changes made by this file system are already notified, don't report them again when polling
+    if (kind === "remove") {
+      this._snapshot?.delete(pathname);
+    } else {
+      this._snapshot?.set(pathname, null);
+    }
+    this._touched?.set(pathname, kind);
+    super._notify(kind, pathname, type, context);
+  }
+
+  /** detect the changes made outside of the browser by comparing the snapshots of the folder. */
+  private async _poll() {
+    const touched = this._touched = new Map();
+    try {
+      const snapshot: Snapshot = new Map();
+      const walk = async (dir: string, ancestors: FileSystemDirectoryHandle[]) => {
+        for (const [name, child] of await this._entries(ancestors.at(-1)!, ancestors)) {
+          const path = (dir === "/" ? "" : dir) + "/" + name;
+          if (child.kind === "directory") {
+            snapshot.set(path, { type: 2, mtime: 0, size: 0 });
+            await walk(path, [...ancestors, child]);
+          } else {
+            const file = await child.getFile();
+            snapshot.set(path, { type: 1, mtime: file.lastModified, size: file.size });
+          }
+        }
+      };
+      await walk("/", [await this._getRoot()]);
+      if (this._watcherCount === 0) {
+        return;
+      }
+      // the paths changed by this file system during the walk are already notified
+      for (const [path, kind] of touched) {
+        if (kind === "remove") {
+          snapshot.delete(path);
+        } else {
+          snapshot.set(path, null);
+        }
+      }
+      const prev = this._snapshot;
+      this._snapshot = snapshot;
+      this._pollFailed = false;
+      if (prev) {
+        for (const [path, entry] of prev) {
+          const current = snapshot.get(path);
+          if (touched.has(path)) {
+            continue;
+          }
+          if (!current || (entry && entry.type !== current.type)) {
+            super._notify("remove", path, entry?.type);
+          }
+        }
+        for (const [path, entry] of snapshot) {
+          const prevEntry = prev.get(path);
+          if (touched.has(path)) {
+            continue;
+          }
+          if (prevEntry === undefined || (prevEntry && prevEntry.type !== entry!.type)) {
+            super._notify("create", path, entry!.type);
+          } else if (prevEntry && entry!.type === 1 && (prevEntry.mtime !== entry!.mtime || prevEntry.size !== entry!.size)) {
+            super._notify("modify", path, 1);
+          }
+        }
+      }
+    } catch (error) {
+      if (isDOMError(error, "NotAllowedError")) {
+        // the permission has been revoked, request it again on the next access
+        this._granted = false;
+      }
+      if (!this._pollFailed) {
+        this._pollFailed = true;
+        console.warn("Failed to poll the local folder:", error);
+      }
+    } finally {
+      if (this._touched === touched) {
+        this._touched = undefined;
+      }
+      if (this._watcherCount > 0) {
+        this._pollTimer = setTimeout(() => this._poll(), this._pollInterval);
+      }
+    }
+  }
+}
+
+/**
+ * A union file system that reads through to the read-only `base` layer, and writes the changes into the `upper`
+ * layer (copy-on-write). The deleted entries of the base layer are recorded as whiteouts in the upper layer.
+ */
+export class OverlayFileSystem extends WatchableFileSystem implements FileSystem {
+  private _base: FileSystem;
+  private _upper: FileSystem;
+  private _whiteouts?: Promise<Set<string>>;
+  private _unwatchBase: () => void;
+
+  constructor(base: FileSystem, upper: FileSystem) {
+    super();
+    this._base = base;
+    this._upper = upper;
+    // forward the changes of the base layer that are not shadowed by the upper layer
+    this._unwatchBase = base.watch("/", { recursive: true }, async (kind, pathname, type) => {
+      try {
+        if (!(await this._isHidden(pathname)) && !(await statOrNull(this._upper, pathname))) {
+          this._notify(kind, pathname, type);
+        }
+      } catch (error) {
+        console.error(error);
+      }
+    });
+  }
+
+  /** stop watching the base layer. */
+  dispose(): void {
+    this._unwatchBase();
+  }
+
+  private _getWhiteouts(): Promise<Set<string>> {
+    return this._whiteouts ??= this._upper.readTextFile(WHITEOUTS_FILE).then(
+      (text) => new Set(JSON.parse(text) as string[]),
+      (error) => {
+        if (error instanceof NotFoundError) {
+          return new Set<string>();
+        }
+        throw error;
+      },
+    );
+  }
+
+  private async _saveWhiteouts(whiteouts: Set<string>): Promise<void> {
+    this._whiteouts = Promise.resolve(whiteouts);
+    if (whiteouts.size > 0) {
+      await this._upper.writeFile(WHITEOUTS_FILE, JSON.stringify([...whiteouts].sort()));
+    } else if (await statOrNull(this._upper, WHITEOUTS_FILE)) {
+      await this._upper.delete(WHITEOUTS_FILE);
+    }
+  }
+
+  /** check if the path of the base layer is hidden by a whiteout. */
+  private async _isHidden(pathname: string): Promise<boolean> {
+    const whiteouts = await this._getWhiteouts();
+    for (const whiteout of whiteouts) {
+      if (isSubpath(whiteout, pathname)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private async _baseStat(pathname: string): Promise<FileStat | null> {
+    if (await this._isHidden(pathname)) {
+      return null;
+    }
+    return statOrNull(this._base, pathname);
+  }
+
+  /** list all the entries under the directory. */
+  private async _walk(pathname: string): Promise<[string, number][]> {
+    const entries: [string, number][] = [];
+    for (const [name, type] of await this.readDirectory(pathname)) {
+      const path = (pathname === "/" ? "" : pathname) + "/" + name;
+      entries.push([path, type]);
+      if (type === 2) {
+        entries.push(...await this._walk(path));
+      }
+    }
+    return entries;
+  }
+
+  /** get the stats of the entry and all the entries under it. */
+  private async _snapshot(pathname: string): Promise<Map<string, FileStat>> {
+    const stats = new Map<string, FileStat>();
+    const stat = await statOrNull(this, pathname);
+    if (stat) {
+      stats.set(pathname, stat);
+      if (stat.type === 2) {
+        for (const [path, type] of await this._walk(pathname)) {
+          stats.set(path, { type: type as FileStat["type"], version: 0, ctime: 0, mtime: 0, size: 0 });
+        }
+      }
+    }
+    return stats;
+  }
+
+  async stat(name: string): Promise<FileStat> {
+    const { pathname, href: url } = filenameToURL(name);
+    if (pathname === WHITEOUTS_FILE) {
+      throw new NotFoundError(url);
+    }
+    const stat = await statOrNull(this._upper, pathname) ?? await this._baseStat(pathname);
+    if (!stat) {
+      throw new NotFoundError(url);
+    }
+    return stat;
+  }
+
+  async createDirectory(name: string): Promise<void> {
+    await this.batch((tx) => tx.createDirectory(name));
+  }
+
+  async readDirectory(name: string): Promise<[string, number][]> {
+    const { pathname, href: url } = filenameToURL(name);
+    const upperStat = await statOrNull(this._upper, pathname);
+    const baseStat = upperStat?.type === 1 ? null : await this._baseStat(pathname);
+    const stat = upperStat ?? baseStat;
+    if (!stat) {
+      throw new NotFoundError(url);
+    }
+    if (stat.type !== 2) {
+      throw new Error(`read ${pathname}: not a directory`);
+    }
+    const entries = new Map<string, number>();
+    if (baseStat?.type === 2) {
+      for (const [name, type] of await this._base.readDirectory(pathname)) {
+        const path = (pathname === "/" ? "" : pathname) + "/" + name;
+        if (!(await this._isHidden(path))) {
+          entries.set(name, type);
+        }
+      }
+    }
+    if (upperStat) {
+      for (const [name, type] of await this._upper.readDirectory(pathname)) {
+        entries.set(name, type);
+      }
+    }
+    if (pathname === "/") {
+      entries.delete(WHITEOUTS_FILE.slice(1));
+    }
+    return [...entries].sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0);
+  }
+
+  async readFile(name: string): Promise<Uint8Array> {
+    const { pathname, href: url } = filenameToURL(name);
+    const stat = await this.stat(url);
+    if (stat.type !== 1) {
+      throw new NotFoundError(url);
+    }
+    if (await statOrNull(this._upper, pathname)) {
+      return this._upper.readFile(pathname);
+    }
+    return this._base.readFile(pathname);
+  }
+
+  async readTextFile(filename: string): Promise<string> {
+    return this.readFile(filename).then(decode);
+  }
+
+  async writeFile(name: string, content: string | Uint8Array, context?: any): Promise<void> {
+    const { pathname } = filenameToURL(name);
+    const dir = pathname.slice(0, pathname.lastIndexOf("/"));
+    if (dir) {
+      const stat = await statOrNull(this, dir);
+      if (!stat) {
+        throw new Error(`write ${pathname}: no such file or directory`);
+      }
+      if (stat.type !== 2) {
+        throw new Error(`write ${pathname}: not a directory`);
+      }
+      // copy the parent directories up to the upper layer
+      await this._upper.createDirectory(dir);
+    }
+    const oldStat = await statOrNull(this, pathname);
+    if (oldStat?.type === 2) {
+      throw new Error(`write ${pathname}: is a directory`);
+    }
+    await this._upper.writeFile(pathname, content);
+    this._notify(oldStat ? "modify" : "create", pathname, 1, context);
+  }
+
+  async delete(name: string, options?: { recursive: boolean }): Promise<void> {
+    await this.batch((tx) => tx.delete(name, options));
+  }
+
+  async copy(source: string, target: string, options?: { overwrite: boolean }): Promise<void> {
+    await this.batch((tx) => tx.copy(source, target, options));
+  }
+
+  async rename(oldName: string, newName: string, options?: { overwrite: boolean }): Promise<void> {
+    await this.batch((tx) => tx.rename(oldName, newName, options));
+  }
+
+  /**
+   * Run the callback with a transaction, the changes are written into the upper layer after the callback returns,
+   * and nothing is written if the callback throws.
+   */
+  async batch(callback: (tx: FileSystemTransaction) => void | Promise<void>): Promise<void> {
+    const changes = await new StagedTransaction(this).run(callback);
+    const oldStats = new Map<string, FileStat>();
+    for (const [pathname, entry] of changes) {
+      if (entry === null || entry.opaque) {
+        for (const [path, stat] of await this._snapshot(pathname)) {
+          oldStats.set(path, stat);
+        }
+      } else {
+        const stat = await statOrNull(this, pathname);
+        if (stat) {
+          oldStats.set(pathname, stat);
+        }
+      }
+    }
+    const whiteouts = new Set(await this._getWhiteouts());
+    for (const [pathname, entry] of changes) {
+      if (entry === null || entry.opaque) {
+        if (await this._baseStat(pathname)) {
+          for (const whiteout of whiteouts) {
+            if (isSubpath(pathname, whiteout)) {
+              whiteouts.delete(whiteout);
+            }
+          }
+          whiteouts.add(pathname);
+        }
+        await deleteOrIgnore(this._upper, pathname);
+      }
+      if (entry?.type === 1) {
+        const dir = pathname.slice(0, pathname.lastIndexOf("/"));
+        if (dir) {
+          await this._upper.createDirectory(dir);
+        }
+        await this._upper.writeFile(pathname, entry.content);
+      } else if (entry?.type === 2) {
+        await this._upper.createDirectory(pathname);
+      }
+    }
+    await this._saveWhiteouts(whiteouts);
+    this._notifyChanges(changes, oldStats);
+  }
+
+  /** Get the files that are added, modified or deleted compared to the base layer. */
+  async getChangedFiles(): Promise<OverlayFileChange[]> {
+    const changes: OverlayFileChange[] = [];
+    const walkUpper = async (dir: string) => {
+      for (const [name, type] of await this._upper.readDirectory(dir)) {
+        const path = (dir === "/" ? "" : dir) + "/" + name;
+        if (path === WHITEOUTS_FILE) {
+          continue;
+        }
+        if (type === 2) {
+          await walkUpper(path);
+        } else if ((await statOrNull(this._base, path))?.type !== 1) {
+          changes.push({ path, status: "added" });
+        } else if (!bytesEqual(await this._upper.readFile(path), await this._base.readFile(path))) {
+          changes.push({ path, status: "modified" });
+        }
+      }
+    };
+    await walkUpper("/");
+    const walkBase = async (path: string, type: number) => {
+      if (type === 2) {
+        for (const [name, type] of await this._base.readDirectory(path)) {
+          await walkBase((path === "/" ? "" : path) + "/" + name, type);
+        }
+      } else if (!(await statOrNull(this._upper, path))) {
+        changes.push({ path, status: "deleted" });
+      }
+    };
+    for (const whiteout of await this._getWhiteouts()) {
+      const stat = await statOrNull(this._base, whiteout);
+      if (stat) {
+        await walkBase(whiteout, stat.type);
+      }
+    }
+    return changes.sort((a, b) => a.path < b.path ? -1 : a.path > b.path ? 1 : 0);
+  }
+
+  /** Revert the file or directory to the content of the base layer, the added files under the path are removed. */
+  async revert(name: string): Promise<void> {
+    const { pathname } = filenameToURL(name);
+    const oldStats = await this._snapshot(pathname);
+    const hiddenDirs: string[] = [];
+    for (let dir = pathname.slice(0, pathname.lastIndexOf("/")); dir; dir = dir.slice(0, dir.lastIndexOf("/"))) {
+      if (!(await statOrNull(this, dir))) {
+        hiddenDirs.unshift(dir);
+      }
+    }
+    if (pathname === "/") {
+      for (const [name] of await this._upper.readDirectory("/")) {
+        await this._upper.delete("/" + name, { recursive: true });
+      }
+    } else {
+      await deleteOrIgnore(this._upper, pathname);
+    }
+    const whiteouts = new Set(await this._getWhiteouts());
+    for (const whiteout of whiteouts) {
+      if (isSubpath(pathname, whiteout)) {
+        whiteouts.delete(whiteout);
+      }
+    }
+    await this._saveWhiteouts(whiteouts);
+    if (pathname !== "/" && await this._isHidden(pathname)) {
+      // the path is inside a deleted directory, copy the original content up to the upper layer
+      const copyUp = async (path: string, type: number) => {
+        if (type === 2) {
+          await this._upper.createDirectory(path);
+          for (const [name, type] of await this._base.readDirectory(path)) {
+            await copyUp(path + "/" + name, type);
+          }
+        } else {
+          await this._upper.createDirectory(path.slice(0, path.lastIndexOf("/")) || "/");
+          await this._upper.writeFile(path, await this._base.readFile(path));
+        }
+      };
+      const stat = await statOrNull(this._base, pathname);
+      if (stat) {
+        await copyUp(pathname, stat.type);
+      }
+    }
+    const newStats = await this._snapshot(pathname);
+    for (const dir of hiddenDirs) {
+      if (await statOrNull(this, dir)) {
+        this._notify("create", dir, 2);
+      }
+    }
+    for (const [path, { type }] of oldStats) {
+      if (newStats.get(path)?.type !== type) {
+        this._notify("remove", path, type);
+      }
+    }
+    for (const [path, { type }] of newStats) {
+      if (oldStats.get(path)?.type !== type) {
+        this._notify("create", path, type);
+      } else if (type === 1) {
+        this._notify("modify", path, type);
+      }
+    }
+  }
+}
+
+const WHITEOUTS_FILE = "/.overlay-whiteouts.json";
+
+/** Get the stat of the file, returns `null` if not found. */
+async function statOrNull(fs: FileSystem, name: string): Promise<FileStat | null> {
+  try {
+    return await fs.stat(name);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/** Delete the file or directory recursively, ignores the `NotFoundError`. */
+async function deleteOrIgnore(fs: FileSystem, name: string): Promise<void> {
+  try {
+    await fs.delete(name, { recursive: true });
+  } catch (error) {
+    if (!(error instanceof NotFoundError)) {
+      throw error;
+    }
+  }
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+type StagedEntry = { type: 1; content: Uint8Array; opaque?: boolean } | { type: 2; opaque?: boolean } | null;
+
+/**
+ * A transaction that stages changes in memory on top of a filesystem, until they are committed.
+ * - a `null` entry marks a deleted path.
+ * - an `opaque` entry hides everything the filesystem has under the path.
+ */
+class StagedTransaction implements FileSystemTransaction {
+  private _fs: FileSystem;
+  private _changes = new Map<string, StagedEntry>();
+  private _finished = false;
+
+  constructor(fs: FileSystem) {
+    this._fs = fs;
+  }
+
+  /** Run the callback with the transaction, then return the staged changes sorted by path. */
+  async run(callback: (tx: FileSystemTransaction) => void | Promise<void>): Promise<[string, StagedEntry][]> {
+    try {
+      await callback(this);
+    } finally {
+      this._finished = true;
+    }
+    return [...this._changes].sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0);
+  }
+
+  private _checkFinished() {
+    if (this._finished) {
+      throw new Error("Transaction is finished.");
+    }
+  }
+
+  private _lookup(pathname: string): StagedEntry | undefined {
+    if (this._changes.has(pathname)) {
+      return this._changes.get(pathname);
+    }
+    let dir = pathname;
+    while (dir !== "/") {
+      dir = dir.slice(0, dir.lastIndexOf("/")) || "/";
+      const entry = this._changes.get(dir);
+      if (entry === null || entry?.type === 1 || entry?.opaque) {
+        return null;
+      }
+    }
+    return undefined;
+  }
+
+  private _set(pathname: string, entry: NonNullable<StagedEntry>) {
+    const prev = this._changes.get(pathname);
+    if (prev === null || prev?.opaque) {
+      entry.opaque = true;
+    }
+    this._changes.set(pathname, entry);
+  }
+
+  private async _statOrNull(name: string): Promise<FileStat | null> {
+    try {
+      return await this.stat(name);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async _copy(source: string, target: string, type: number): Promise<void> {
+    if (type === 1) {
+      this._set(target, { type: 1, content: await this.readFile(source) });
+    } else if (type === 2) {
+      this._set(target, { type: 2 });
+      for (const [name, type] of await this.readDirectory(source)) {
+        await this._copy(source + "/" + name, target + "/" + name, type);
+      }
+    }
+  }
+
+  async stat(name: string): Promise<FileStat> {
+    const { pathname, href: url } = filenameToURL(name);
+    const entry = this._lookup(pathname);
+    if (entry === undefined) {
+      return this._fs.stat(url);
+    }
+    if (entry === null) {
+      throw new NotFoundError(url);
+    }
+    const now = Date.now();
+    return { type: entry.type, version: 0, ctime: now, mtime: now, size: entry.type === 1 ? entry.content.byteLength : 0 };
+  }
+
+  async createDirectory(name: string): Promise<void> {
+    this._checkFinished();
+    const { pathname } = filenameToURL(name);
+    let dir = "";
+    for (const segment of pathname.split("/").filter(Boolean)) {
+      dir += "/" + segment;
+      const stat = await this._statOrNull(dir);
+      if (!stat) {
+        this._set(dir, { type: 2 });
+      } else if (stat.type !== 2) {
+        throw new Error(`mkdir ${pathname}: not a directory`);
+      }
     }
-    await Promise.all(promises);
-    for (const [oldPath, newPath, type] of moved) {
-      this._notify("remove", oldPath, type);
-      this._notify("create", newPath, type);
+  }
+
+  async readDirectory(name: string): Promise<[string, number][]> {
+    const { pathname, href: url } = filenameToURL(name);
+    const stat = await this.stat(url);
+    if (stat.type !== 2) {
+      throw new Error(`read ${pathname}: not a directory`);
+    }
+    const entries = new Map<string, number>();
+    if (!this._lookup(pathname)?.opaque) {
+      try {
+        for (const [name, type] of await this._fs.readDirectory(url)) {
+          entries.set(name, type);
+        }
+      } catch (error) {
+        if (!(error instanceof NotFoundError)) {
+          throw error;
+        }
+      }
+    }
+    const dir = pathname === "/" ? "/" : pathname + "/";
+    for (const [path, entry] of this._changes) {
+      const name = path.slice(dir.length);
+      if (path.startsWith(dir) && name !== "" && !name.includes("/")) {
+        if (entry === null) {
+          entries.delete(name);
+        } else {
+          entries.set(name, entry.type);
+        }
+      }
     }
+    return [...entries];
   }
 
-  watch(filename: string, handle: FileSystemWatcher["handle"]): () => void;
-  watch(filename: string, options: { recursive: boolean }, handle: FileSystemWatcher["handle"]): () => void;
-  watch(
-    filename: string,
-    handleOrOptions: FileSystemWatcher["handle"] | { recursive: boolean },
-    handle?: FileSystemWatcher["handle"],
-  ): () => void {
-    const options = typeof handleOrOptions === "function" ? undefined : handleOrOptions;
-    handle = typeof handleOrOptions === "function" ? handleOrOptions : handle!;
-    if (typeof handle !== "function") {
-      throw new TypeError("handle must be a function");
+  async readFile(name: string): Promise<Uint8Array> {
+    const { pathname, href: url } = filenameToURL(name);
+    const entry = this._lookup(pathname);
+    if (entry === undefined) {
+      return this._fs.readFile(url);
     }
-    const watcher: FileSystemWatcher = { pathname: filenameToURL(filename).pathname, recursive: options?.recursive ?? false, handle };
-    this._watchers.add(watcher);
-    return () => {
-      this._watchers.delete(watcher);
-    };
+    if (entry === null) {
+      throw new NotFoundError(url);
+    }
+    if (entry.type !== 1) {
+      throw new Error(`read ${pathname}: is a directory`);
+    }
+    return entry.content;
   }
 
-  private async _notify(kind: "create" | "modify" | "remove", pathname: string, type?: number, context?: any) {
-    for (const watcher of this._watchers) {
-      if (
-        watcher.pathname === pathname || (watcher.recursive && (watcher.pathname === "/" || pathname.startsWith(watcher.pathname + "/")))
-      ) {
-        watcher.handle(kind, pathname, type, context);
+  async readTextFile(filename: string): Promise<string> {
+    return this.readFile(filename).then(decode);
+  }
+
+  async writeFile(name: string, content: string | Uint8Array): Promise<void> {
+    this._checkFinished();
+    const { pathname } = filenameToURL(name);
+    const dir = pathname.slice(0, pathname.lastIndexOf("/"));
+    if (dir) {
+      const stat = await this._statOrNull(dir);
+      if (!stat) {
+        throw new Error(`write ${pathname}: no such file or directory`);
+      }
+      if (stat.type !== 2) {
+        throw new Error(`write ${pathname}: not a directory`);
+      }
+    }
+    if ((await this._statOrNull(pathname))?.type === 2) {
+      throw new Error(`write ${pathname}: is a directory`);
+    }
+    this._set(pathname, { type: 1, content: encode(content) });
+  }
+
+  async delete(name: string, options?: { recursive: boolean }): Promise<void> {
+    this._checkFinished();
+    const { pathname, href: url } = filenameToURL(name);
+    if (pathname === "/") {
+      throw new Error(`delete ${url}: operation not permitted`);
+    }
+    const stat = await this.stat(url);
+    if (stat.type === 2 && !options?.recursive && (await this.readDirectory(url)).length > 0) {
+      throw new Error(`delete ${url}: directory not empty`);
+    }
+    for (const path of this._changes.keys()) {
+      if (path.startsWith(pathname + "/")) {
+        this._changes.delete(path);
+      }
+    }
+    this._changes.set(pathname, null);
+  }
+
+  async copy(source: string, target: string, options?: { overwrite: boolean }): Promise<void> {
+    this._checkFinished();
+    const { href: sourceUrl, pathname: sourcePath } = filenameToURL(source);
+    const { href: targetUrl, pathname: targetPath } = filenameToURL(target);
+    const sourceStat = await this.stat(sourceUrl);
+    if (isSubpath(sourcePath, targetPath) || isSubpath(targetPath, sourcePath)) {
+      throw new Error(`copy ${sourceUrl} to ${targetUrl}: invalid argument`);
+    }
+    if (await this._statOrNull(targetPath)) {
+      if (!options?.overwrite) {
+        throw new Error(`copy ${sourceUrl} to ${targetUrl}: file exists`);
+      }
+      await this.delete(targetPath, { recursive: true });
+    }
+    const targetPathDirname = targetPath.slice(0, targetPath.lastIndexOf("/"));
+    if (targetPathDirname) {
+      const stat = await this._statOrNull(targetPathDirname);
+      if (!stat) {
+        throw new Error(`copy ${sourceUrl} to ${targetUrl}: No such file or directory`);
+      }
+      if (stat.type !== 2) {
+        throw new Error(`copy ${sourceUrl} to ${targetUrl}: Not a directory`);
+      }
+    }
+    await this._copy(sourcePath, targetPath, sourceStat.type);
+  }
+
+  async rename(oldName: string, newName: string, options?: { overwrite: boolean }): Promise<void> {
+    await this.copy(oldName, newName, options);
+    await this.delete(oldName, { recursive: true });
+  }
+}
+
+/** Wrap a filesystem that doesn't support transactions, the filesystem object itself is left untouched. */
+function withBatchFallback(fs: FileSystem): FileSystem & { batch: NonNullable<FileSystem["batch"]> } {
+  return new Proxy(fs, {
+    get(target, prop) {
+      if (prop === "batch") {
+        return (callback: (tx: FileSystemTransaction) => void | Promise<void>) => batchFallback(target, callback);
+      }
+      // bind the methods to the filesystem, they may access its private fields
+      const value = Reflect.get(target, prop);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  }) as FileSystem & { batch: NonNullable<FileSystem["batch"]> };
+}
+
+/** Apply a batch to a filesystem that doesn't support transactions, the changes are applied one by one. */
+async function batchFallback(fs: FileSystem, callback: (tx: FileSystemTransaction) => void | Promise<void>): Promise<void> {
+  const changes = await new StagedTransaction(fs).run(callback);
+  for (const [pathname, entry] of changes) {
+    if (entry === null || entry.opaque) {
+      await deleteOrIgnore(fs, pathname);
+    }
+    if (entry?.type === 1) {
+      await fs.writeFile(pathname, entry.content);
+    } else if (entry?.type === 2) {
+      await fs.createDirectory(pathname);
+    }
+  }
+}
+
+/** [offset, length, text] of a change, the changes of an edit are sorted by offset descending. */
+type EditChange = [offset: number, length: number, text: string];
+
+/** the edit history of a file, each group of edits is one undo stop. */
+type EditHistory = {
+  /** the content before the first edit */
+  base: string;
+  edits: EditChange[][][];
+  /** the number of the applied groups, the rest can be redone */
+  applied: number;
+};
+
+function applyEditGroups(text: string, groups: EditChange[][][]): string {
+  for (const group of groups) {
+    for (const changes of group) {
+      for (const [offset, length, newText] of changes) {
+        text = text.slice(0, offset) + newText + text.slice(offset + length);
+      }
+    }
+  }
+  return text;
+}
+
+/**
+ * rebuild the undo/redo stack of the model that is created with the base content of the history,
+ * returns the version ids of the replayed edits.
+ */
+function replayEditHistory(model: monacoNS.editor.ITextModel, history: EditHistory): number[][] {
+  const versions = history.edits.map((group) => {
+    const groupVersions = group.map((changes) => {
+      const operations = changes.map(([offset, length, text]) => {
+        const start = model.getPositionAt(offset);
+        const end = model.getPositionAt(offset + length);
+        return {
+          range: { startLineNumber: start.lineNumber, startColumn: start.column, endLineNumber: end.lineNumber, endColumn: end.column },
+          text,
+        };
+      });
+      model.pushEditOperations([], operations, () => null);
+      return model.getVersionId();
+    });
+    model.pushStackElement();
+    return groupVersions;
+  });
+  for (let i = history.applied; i < history.edits.length; i++) {
+    model.undo();
+  }
+  return versions;
+}
+
+/**
+ * record the edits of the model, returns a function to stop tracking.
+ * The `versions` are the version ids of the edits, the model reverts to the alternative version id on undo/redo,
+ * which tells the edits that are undone together.
+ */
+function trackEditHistory(
+  model: monacoNS.editor.ITextModel,
+  history: EditHistory,
+  versions: number[][],
+  maxSize: number,
+  save: (history: EditHistory) => Promise<void>,
+  isRemoteChange: () => boolean,
+): () => void {
+  const persist = createPersistTask(() => save(history));
+  const countApplied = (versionId: number) => versions.filter((group) => group.at(-1)! <= versionId).length;
+  const disposable = model.onDidChangeContent((e) => {
+    // the local edits can't be replayed over the changes of the peers, restart the history from the current content
+    if (e.isFlush || isRemoteChange()) {
+      history.base = model.getValue();
+      history.edits = [];
+      history.applied = 0;
+      versions.length = 0;
+    } else if (e.isUndoing) {
+      // the undone edits are one undo stop, merge them into one group
+      const versionId = model.getAlternativeVersionId();
+      const index = countApplied(versionId);
+      if (index < history.applied) {
+        // split the first group if only a part of it is undone
+        const split = versions[index].filter((v) => v <= versionId).length;
+        const edits = history.edits.slice(index, history.applied).flat();
+        const editVersions = versions.slice(index, history.applied).flat();
+        const groups = [edits.slice(split)];
+        const groupVersions = [editVersions.slice(split)];
+        if (split > 0) {
+          groups.unshift(edits.slice(0, split));
+          groupVersions.unshift(editVersions.slice(0, split));
+        }
+        history.edits.splice(index, history.applied - index, ...groups);
+        versions.splice(index, history.applied - index, ...groupVersions);
+      }
+      history.applied = countApplied(versionId);
+    } else if (e.isRedoing) {
+      history.applied = countApplied(model.getAlternativeVersionId());
+    } else {
+      const changes = e.changes.map((c): EditChange => [c.rangeOffset, c.rangeLength, c.text]).sort((a, b) => b[0] - a[0]);
+      // a new edit clears the redo stack
+      history.edits.length = history.applied;
+      versions.length = history.applied;
+      const last = history.edits.at(-1)?.at(-1);
+      // continuous typing is one group, the group is split later if it's not undone at once
+      if (last && changes.length === 1 && last.length === 1 && last[0][1] === 0 && changes[0][1] === 0
+        && changes[0][0] === last[0][0] + last[0][2].length) {
+        history.edits.at(-1)!.push(changes);
+        versions.at(-1)!.push(e.versionId);
+      } else {
+        history.edits.push([changes]);
+        versions.push([e.versionId]);
+      }
+      while (history.edits.length > maxSize) {
+        history.base = applyEditGroups(history.base, [history.edits.shift()!]);
+        versions.shift();
       }
+      history.applied = history.edits.length;
     }
+    persist();
+  });
+  return () => disposable.dispose();
+}
+
+type WorkspaceTemplate = { version: string | number; files: Record<string, string | Uint8Array> };
+
+/** Upgrade a template file with the built-in strategy, returns the new content, `null` to delete, or `undefined` to keep. */
+function upgradeFile(
+  strategy: "keep-user" | "overwrite" | "three-way-merge",
+  oldTemplate: string | Uint8Array | undefined,
+  newTemplate: string | Uint8Array | undefined,
+  user: Uint8Array | undefined,
+): string | Uint8Array | null | undefined {
+  if (strategy === "overwrite") {
+    return newTemplate ?? (user ? null : undefined);
   }
+  if (!user) {
+    // add the new files of the template, but don't restore the files deleted by the user
+    return oldTemplate === undefined ? newTemplate : undefined;
+  }
+  if (oldTemplate !== undefined && contentEqual(user, oldTemplate)) {
+    // the file is not changed by the user
+    return newTemplate ?? null;
+  }
+  if (strategy === "keep-user" || newTemplate === undefined || typeof newTemplate !== "string" || typeof oldTemplate === "object") {
+    return undefined;
+  }
+  return merge3(oldTemplate ?? "", decode(user), newTemplate).content;
+}
+
+function contentEqual(a: string | Uint8Array, b: string | Uint8Array): boolean {
+  return bytesEqual(encode(a), encode(b));
+}
+
+/** Check if the error is a DOMException with the given name. */
+function isDOMError(error: unknown, name: string): boolean {
+  return error instanceof DOMException && error.name === name;
+}
+
+/** Check if the `child` path is the `parent` path or is inside it. */
+function isSubpath(parent: string, child: string): boolean {
+  return parent === "/" || child === parent || child.startsWith(parent + "/");
 }
 
 /** WorkspaceDatabase provides workspace database. */
@@ -516,47 +3062,276 @@ class WorkspaceDatabase {
   async open(): Promise<IDBDatabase> {
     return await this._db;
   }
+
+  async close(): Promise<void> {
+    (await this._db).close();
+  }
 }
 
 /** workspace state storage */
 class WorkspaceStateStorage<T> {
-  #db: WorkspaceDatabase;
-
-  constructor(dbName: string) {
-    this.#db = new WorkspaceDatabase(
-      dbName,
-      {
-        name: "store",
-        keyPath: "url",
-      },
-    );
+  #db?: WorkspaceDatabase;
+  #memory?: Map<string, T>;
+  #keyPrefix: string;
+
+  constructor(dbName: string, inMemory = !globalThis.indexedDB, keyPrefix = "") {
+    this.#keyPrefix = keyPrefix;
+    if (inMemory) {
+      this.#memory = new Map();
+    } else {
+      this.#db = new WorkspaceDatabase(
+        dbName,
+        {
+          name: "store",
+          keyPath: "url",
+        },
+      );
+    }
   }
 
   async get(uri: string | URL): Promise<T | undefined> {
-    const url = normalizeURL(uri).href;
-    const store = (await this.#db.open()).transaction("store", "readonly").objectStore("store");
+    const url = this.#keyPrefix + normalizeURL(uri).href;
+    if (this.#memory) {
+      return this.#memory.get(url);
+    }
+    const store = (await this.#db!.open()).transaction("store", "readonly").objectStore("store");
     return promisifyIDBRequest<{ state: T } | undefined>(store.get(url)).then((result) => result?.state);
   }
 
   async save(uri: string | URL, state: T): Promise<void> {
-    const url = normalizeURL(uri).href;
-    const store = (await this.#db.open()).transaction("store", "readwrite").objectStore("store");
+    const url = this.#keyPrefix + normalizeURL(uri).href;
+    if (this.#memory) {
+      this.#memory.set(url, state);
+      return;
+    }
+    const store = (await this.#db!.open()).transaction("store", "readwrite").objectStore("store");
     await promisifyIDBRequest(store.put({ url, state }));
   }
 }
 
+/** local file history, the snapshots of the files are recorded on save. */
+class LocalFileHistory {
+  #db?: WorkspaceDatabase;
+  #memory?: Map<string, WorkspaceSnapshot>;
+  #interval: number;
+  #maxSnapshots: number;
+  #restore: (url: string, content: string) => Promise<void>;
+
+  constructor(
+    scope: string,
+    inMemory: boolean,
+    options: { interval?: number; maxSnapshots?: number } = {},
+    restore: (url: string, content: string) => Promise<void>,
+  ) {
+    if (inMemory || !globalThis.indexedDB) {
+      this.#memory = new Map();
+    } else {
+      this.#db = new WorkspaceDatabase(
+        "modern-monaco-snapshots(" + scope + ")",
+        {
+          name: "snapshots",
+          keyPath: "id",
+          onCreate: async (store) => {
+            store.createIndex("url", "url");
+          },
+        },
+      );
+    }
+    this.#interval = options.interval ?? 10_000;
+    this.#maxSnapshots = options.maxSnapshots ?? 50;
+    this.#restore = restore;
+  }
+
+  async #store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    return (await this.#db!.open()).transaction("snapshots", mode).objectStore("snapshots");
+  }
+
+  async #get(id: string): Promise<WorkspaceSnapshot | undefined> {
+    if (this.#memory) {
+      return this.#memory.get(id);
+    }
+    return promisifyIDBRequest<WorkspaceSnapshot | undefined>((await this.#store("readonly")).get(id));
+  }
+
+  /** list the snapshots of the file, the latest first. */
+  async list(name: string): Promise<WorkspaceSnapshot[]> {
+    const url = filenameToURL(name).href;
+    let snapshots: WorkspaceSnapshot[];
+    if (this.#memory) {
+      snapshots = [...this.#memory.values()].filter((snapshot) => snapshot.url === url);
+    } else {
+      const store = await this.#store("readonly");
+      snapshots = await promisifyIDBRequest<WorkspaceSnapshot[]>(store.index("url").getAll(url));
+    }
+    return snapshots.sort((a, b) => b.time - a.time);
+  }
+
+  /** record a snapshot of the file, the saves within the interval after the creation of the snapshot are merged into it. */
+  async record(name: string, content: string): Promise<void> {
+    const url = filenameToURL(name).href;
+    const snapshots = await this.list(url);
+    const latest = snapshots[0];
+    if (latest?.content === content) {
+      return;
+    }
+    const now = Date.now();
+    const snapshot: WorkspaceSnapshot = latest && now - latest.created < this.#interval
+      ? { ...latest, time: now, content }
+      : { id: now.toString(36) + Math.random().toString(36).slice(2, 8), url, created: now, time: now, content };
+    const expired = snapshots.filter((s) => s.id !== snapshot.id).slice(this.#maxSnapshots - 1);
+    if (this.#memory) {
+      this.#memory.set(snapshot.id, snapshot);
+      for (const { id } of expired) {
+        this.#memory.delete(id);
+      }
+      return;
+    }
+    const store = await this.#store("readwrite");
+    await Promise.all([
+      promisifyIDBRequest(store.put(snapshot)),
+      ...expired.map(({ id }) => promisifyIDBRequest(store.delete(id))),
+    ]);
+  }
+
+  /** restore the content of the file to the snapshot. */
+  async restore(id: string): Promise<void> {
+    const snapshot = await this.#get(id);
+    if (!snapshot) {
+      throw new Error(`restore ${id}: snapshot not found`);
+    }
+    await this.#restore(snapshot.url, snapshot.content);
+  }
+}
+
+/** the open files of the workspace, the open set is persisted in the local storage. */
+class LocalStorageTabs implements WorkspaceTabs {
+  private _state: { files: readonly string[] };
+  private _dirty = new Set<string>();
+  private _handlers = new Set<(state: WorkspaceTabsState) => void>();
+
+  constructor(scope: string, inMemory = false) {
+    const defaultState = { files: [] };
+    this._state = !inMemory && supportLocalStorage()
+      ? createPersistStateStorage("modern-monaco-workspace-tabs:" + scope, defaultState)
+      : defaultState;
+  }
+
+  private _update(files: string[]) {
+    this._state.files = Object.freeze(files);
+    this._onChange();
+  }
+
+  private _onChange() {
+    const state = this.state;
+    for (const handler of this._handlers) {
+      handler(state);
+    }
+  }
+
+  get state(): WorkspaceTabsState {
+    const files = this._state.files;
+    return { files, dirty: files.filter((file) => this._dirty.has(file)) };
+  }
+
+  open(name: string): void {
+    const url = filenameToURL(name).href;
+    if (!this._state.files.includes(url)) {
+      this._update([...this._state.files, url]);
+    }
+  }
+
+  close(name: string): void {
+    const url = filenameToURL(name).href;
+    if (this._state.files.includes(url)) {
+      this._dirty.delete(url);
+      this._update(this._state.files.filter((file) => file !== url));
+    }
+  }
+
+  move(name: string, index: number): void {
+    const url = filenameToURL(name).href;
+    const files = this._state.files.filter((file) => file !== url);
+    if (files.length < this._state.files.length) {
+      files.splice(Math.max(0, Math.min(index, files.length)), 0, url);
+      this._update(files);
+    }
+  }
+
+  /** mark the file as dirty when it has unsaved changes. */
+  setDirty(name: string, dirty: boolean): void {
+    const url = filenameToURL(name).href;
+    if (dirty !== this._dirty.has(url)) {
+      if (dirty) {
+        this._dirty.add(url);
+      } else {
+        this._dirty.delete(url);
+      }
+      this._onChange();
+    }
+  }
+
+  onChange(handler: (state: WorkspaceTabsState) => void): () => void {
+    this._handlers.add(handler);
+    return () => {
+      this._handlers.delete(handler);
+    };
+  }
+}
+
+/** the diagnostics of the workspace files, collected from the markers of the models. */
+class MarkersDiagnostics implements WorkspaceDiagnostics {
+  private _monaco?: typeof monacoNS;
+  private _handlers = new Set<(urls: readonly string[]) => void>();
+
+  setup(monaco: typeof monacoNS) {
+    this._monaco = monaco;
+    monaco.editor.onDidChangeMarkers((uris) => {
+      const urls = uris.filter(isWorkspaceResource).map((uri) => uri.toString());
+      if (urls.length > 0) {
+        for (const handler of this._handlers) {
+          handler(urls);
+        }
+      }
+    });
+  }
+
+  getAll(): WorkspaceDiagnostic[] {
+    const markers = this._monaco?.editor.getModelMarkers({}) ?? [];
+    return markers
+      .filter((marker) => isWorkspaceResource(marker.resource))
+      .map(({ resource, ...marker }) => ({ ...marker, url: resource.toString() }))
+      .sort((a, b) =>
+        a.url.localeCompare(b.url) || a.startLineNumber - b.startLineNumber || a.startColumn - b.startColumn
+      );
+  }
+
+  onDidChange(handler: (urls: readonly string[]) => void): () => void {
+    this._handlers.add(handler);
+    return () => {
+      this._handlers.delete(handler);
+    };
+  }
+}
+
+/** check if the resource is a workspace file, the embedded documents and the in-memory models are excluded. */
+function isWorkspaceResource(uri: monacoNS.Uri): boolean {
+  return uri.scheme === "file" && !uri.path.includes(".(embedded).") && !uri.path.startsWith("/.inmemory/");
+}
+
 /** local storage workspace history */
 class LocalStorageHistory implements WorkspaceHistory {
   private _state: { current: number; history: string[] };
   private _maxHistory: number;
   private _handlers = new Set<(state: WorkspaceHistoryState) => void>();
+  private _localHistory?: LocalFileHistory;
 
-  constructor(scope: string, maxHistory = 100) {
+  constructor(scope: string, maxHistory = 100, inMemory = false, localHistory?: LocalFileHistory) {
     const defaultState = { "current": -1, "history": [] };
-    this._state = supportLocalStorage()
+    this._state = !inMemory && supportLocalStorage()
       ? createPersistStateStorage("modern-monaco-workspace-history:" + scope, defaultState)
       : defaultState;
     this._maxHistory = maxHistory;
+    this._localHistory = localHistory;
   }
 
   private _onPopState() {
@@ -569,6 +3344,11 @@ class LocalStorageHistory implements WorkspaceHistory {
     return { current: this._state.history[this._state.current] ?? "" };
   }
 
+  get recent(): string[] {
+    const { history, current } = this._state;
+    return [...new Set([history[current], ...[...history].reverse()].filter(Boolean))];
+  }
+
   back(): void {
     this._state.current--;
     if (this._state.current < 0) {
@@ -614,15 +3394,29 @@ class LocalStorageHistory implements WorkspaceHistory {
       this._handlers.delete(handler);
     };
   }
+
+  listSnapshots(path: string): Promise<WorkspaceSnapshot[]> {
+    return this._localHistory?.list(path) ?? Promise.resolve([]);
+  }
+
+  restoreSnapshot(id: string): Promise<void> {
+    if (!this._localHistory) {
+      return Promise.reject(new Error("Local history is disabled."));
+    }
+    return this._localHistory.restore(id);
+  }
 }
 
 /** browser workspace history */
 class BrowserHistory implements WorkspaceHistory {
   private _basePath = "";
   private _current = "";
+  private _recent: string[] = [];
   private _handlers = new Set<(state: WorkspaceHistoryState) => void>();
+  private _localHistory?: LocalFileHistory;
 
-  constructor(basePath = "") {
+  constructor(basePath = "", localHistory?: LocalFileHistory) {
+    this._localHistory = localHistory;
     this._basePath = "/" + basePath.split("/").filter(Boolean).join("/");
     this._current = this._trimBasePath(location.pathname);
     window.addEventListener("popstate", () => {
@@ -647,6 +3441,9 @@ class BrowserHistory implements WorkspaceHistory {
   }
 
   private _onPopState() {
+    if (this._current) {
+      this._recent = [this._current, ...this._recent.filter((url) => url !== this._current)];
+    }
     for (const handler of this._handlers) {
       handler(this.state);
     }
@@ -656,6 +3453,10 @@ class BrowserHistory implements WorkspaceHistory {
     return { current: this._current };
   }
 
+  get recent(): string[] {
+    return this._current ? [this._current, ...this._recent.filter((url) => url !== this._current)] : this._recent;
+  }
+
   back(): void {
     history.back();
   }
@@ -684,4 +3485,15 @@ class BrowserHistory implements WorkspaceHistory {
       this._handlers.delete(handler);
     };
   }
+
+  listSnapshots(path: string): Promise<WorkspaceSnapshot[]> {
+    return this._localHistory?.list(path) ?? Promise.resolve([]);
+  }
+
+  restoreSnapshot(id: string): Promise<void> {
+    if (!this._localHistory) {
+      return Promise.reject(new Error("Local history is disabled."));
+    }
+    return this._localHistory.restore(id);
+  }
 }
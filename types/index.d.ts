@@ -1,7 +1,17 @@
 import type * as monacoNS from "./monaco.d.ts";
 import type { LSPConfig } from "./lsp.d.ts";
 import type { TextmateGrammarName, TextmateThemeName } from "./textmate.d.ts";
-import { FileSystem, NotFoundError, Workspace } from "./workspace";
+import {
+  BroadcastChannelTransport,
+  FileSystem,
+  IndexedDBFileSystem,
+  LocalFileSystem,
+  MemoryFileSystem,
+  NotFoundError,
+  OPFSFileSystem,
+  OverlayFileSystem,
+  Workspace,
+} from "./workspace";
 
 type Awaitable<T> = T | Promise<T>;
 type MaybeGetter<T> = Awaitable<MaybeModule<T>> | (() => Awaitable<MaybeModule<T>>);
@@ -29,7 +39,10 @@ export type TextmateTheme = {
   displayName?: string;
   colors?: Record<string, string>;
   tokenColors?: any[];
-  semanticTokenColors?: Record<string, string>;
+  semanticTokenColors?: Record<
+    string,
+    string | { foreground?: string; fontStyle?: string; bold?: boolean; italic?: boolean; underline?: boolean; strikethrough?: boolean }
+  >;
   semanticHighlighting?: boolean;
 };
 
@@ -75,4 +88,13 @@ export const errors: {
   NotFound: NotFoundError;
 };
 
-export { FileSystem, Workspace };
+export {
+  BroadcastChannelTransport,
+  FileSystem,
+  IndexedDBFileSystem,
+  LocalFileSystem,
+  MemoryFileSystem,
+  OPFSFileSystem,
+  OverlayFileSystem,
+  Workspace,
+};
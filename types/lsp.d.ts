@@ -129,6 +129,17 @@ export interface CSSDataV1 {
   pseudoElements?: (ICSSData & Record<string, unknown>)[];
 }
 
+export interface InlayHintsOptions {
+  /** Show the parameter names of the arguments, "literals" shows them for the literal arguments only. Default: "none". */
+  parameterNames?: "none" | "literals" | "all";
+  /** Show the inferred types of the variables. Default: false. */
+  variableTypes?: boolean;
+  /** Show the inferred return types of the functions. Default: false. */
+  returnTypes?: boolean;
+  /** Show the values of the enum members. Default: false. */
+  enumMemberValues?: boolean;
+}
+
 export interface DiagnosticsOptions {
   validate?: boolean;
   codesToIgnore?: (string | number)[];
@@ -194,6 +205,8 @@ declare global {
       compilerOptions?: ts.CompilerOptions;
       /** Options for the diagnostics. */
       diagnosticsOptions?: DiagnosticsOptions;
+      /** Options for the inlay hints, the inlay hints are disabled by default. */
+      inlayHints?: InlayHintsOptions;
     };
   }
 }
@@ -7,6 +7,8 @@ export interface RenderOptions extends Omit<monacoNS.editor.IStandaloneEditorCon
   fontDigitWidth?: number;
   userAgent?: string;
   shiki?: Omit<ShikiInitOptions, "defaultTheme" | "theme">;
+  /** The open files shown in the tab bar above the editor. */
+  tabs?: string[];
 }
 
 export function renderToString(code: RenderInput, options: RenderOptions): Promise<string>;
@@ -3,7 +3,7 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import type { CancellationToken } from "./monaco.d.ts";
+import type { CancellationToken, editor, IDisposable, IEvent, IPosition, IRange, languages, Position, Uri } from "./monaco.d.ts";
 
 /**
  * Impacts the behavior and appearance of the validation message.
@@ -203,6 +203,15 @@ export interface QuickPickItem {
    * Note: this property is ignored when {@link QuickPickItem.kind kind} is set to {@link QuickPickItemKind.Separator}
    */
   //  buttons?: readonly QuickInputButton[];
+
+  /**
+   * The ranges of the label and the description to highlight, the ranges are only rendered when the
+   * quick pick doesn't filter the items by itself, see {@link QuickPick.matchOnLabel}.
+   */
+  highlights?: {
+    label?: { start: number; end: number }[];
+    description?: { start: number; end: number }[];
+  };
 }
 
 /**
@@ -307,3 +316,507 @@ export function showQuickPick<T extends QuickPickItem>(
   options?: QuickPickOptions,
   token?: CancellationToken,
 ): Promise<T | undefined>;
+
+/**
+ * A quick input UI to let the user pick an item from a list of items of type T.
+ * The items can be filtered through a filter text field and there is an option
+ * {@link QuickPick.canSelectMany canSelectMany} to allow for selecting multiple items.
+ *
+ * Note that in many cases the more convenient {@link window.showQuickPick} is easier to use.
+ */
+export interface QuickPick<T extends QuickPickItem> extends IDisposable {
+  /**
+   * An optional title.
+   */
+  title: string | undefined;
+
+  /**
+   * Current value of the filter text.
+   */
+  value: string;
+
+  /**
+   * Optional placeholder shown in the filter textbox when no filter has been entered.
+   */
+  placeholder: string | undefined;
+
+  /**
+   * If the UI should show a progress indicator.
+   */
+  busy: boolean;
+
+  /**
+   * If the UI should stay open even when loosing UI focus.
+   */
+  ignoreFocusOut: boolean;
+
+  /**
+   * Items to pick from. This can be read and updated by the extension.
+   */
+  items: readonly T[];
+
+  /**
+   * If multiple items can be selected at the same time. Defaults to false.
+   */
+  canSelectMany: boolean;
+
+  /**
+   * If the filter text should also be matched against the label of the items. Defaults to true.
+   * Set to `false` together with {@link QuickPick.sortByLabel sortByLabel} to filter and sort the items by yourself.
+   */
+  matchOnLabel: boolean;
+
+  /**
+   * If the filter text should also be matched against the description of the items. Defaults to false.
+   */
+  matchOnDescription: boolean;
+
+  /**
+   * If the filter text should also be matched against the detail of the items. Defaults to false.
+   */
+  matchOnDetail: boolean;
+
+  /**
+   * If the items should be sorted by the label matching the filter text. Defaults to true.
+   */
+  sortByLabel: boolean;
+
+  /**
+   * Active items. This can be read and updated by the extension.
+   */
+  activeItems: readonly T[];
+
+  /**
+   * Selected items. This can be read and updated by the extension.
+   */
+  selectedItems: readonly T[];
+
+  /**
+   * An event signaling when the value of the filter text has changed.
+   */
+  readonly onDidChangeValue: IEvent<string>;
+
+  /**
+   * An event signaling when the user indicated acceptance of the selected item(s).
+   */
+  readonly onDidAccept: IEvent<void>;
+
+  /**
+   * An event signaling when the active items have changed.
+   */
+  readonly onDidChangeActive: IEvent<readonly T[]>;
+
+  /**
+   * An event signaling when the selected items have changed.
+   */
+  readonly onDidChangeSelection: IEvent<readonly T[]>;
+
+  /**
+   * An event signaling when this input UI is hidden.
+   */
+  readonly onDidHide: IEvent<void>;
+
+  /**
+   * Makes the input UI visible in its current configuration.
+   */
+  show(): void;
+
+  /**
+   * Hides this input UI.
+   */
+  hide(): void;
+}
+
+/**
+ * Creates a {@link QuickPick} to let the user pick an item from a list
+ * of items of type T.
+ *
+ * Note that in many cases the more convenient {@link window.showQuickPick}
+ * is easier to use. {@link window.createQuickPick} should be used
+ * when {@link window.showQuickPick} does not offer the required flexibility.
+ *
+ * @returns A new {@link QuickPick}.
+ */
+export function createQuickPick<T extends QuickPickItem>(): QuickPick<T>;
+
+/**
+ * Represents information about programming constructs like variables, classes,
+ * interfaces etc.
+ */
+export interface SymbolInformation {
+  /**
+   * The name of this symbol.
+   */
+  name: string;
+
+  /**
+   * The name of the symbol containing this symbol.
+   */
+  containerName?: string;
+
+  /**
+   * The kind of this symbol.
+   */
+  kind: languages.SymbolKind;
+
+  /**
+   * The location of this symbol.
+   */
+  location: languages.Location;
+}
+
+/**
+ * The workspace symbol provider interface defines the contract between extensions and
+ * the [symbol search](https://code.visualstudio.com/docs/editor/editingevolved#_open-symbol-by-name)-feature.
+ */
+export interface WorkspaceSymbolProvider {
+  /**
+   * Project-wide search for a symbol matching the given query string.
+   *
+   * The `query`-parameter should be interpreted in a *relaxed way* as the editor will apply its own highlighting
+   * and scoring on the results. A good rule of thumb is to match case-insensitive and to simply check that the
+   * characters of *query* appear in their order in a candidate symbol. Don't use prefix, substring, or similar
+   * strict matching.
+   *
+   * @param query A query string, can be the empty string in which case all symbols should be returned.
+   * @param token A cancellation token.
+   * @returns An array of document highlights or a thenable that resolves to such. The lack of a result can be
+   * signaled by returning `undefined`, `null`, or an empty array.
+   */
+  provideWorkspaceSymbols(query: string, token: CancellationToken): languages.ProviderResult<SymbolInformation[]>;
+}
+
+/**
+ * Register a workspace symbol provider.
+ *
+ * Multiple providers can be registered. In that case providers are asked in parallel and
+ * the results are merged. A failing provider (rejected promise or exception) will not cause
+ * a failure of the whole operation.
+ *
+ * @param provider A workspace symbol provider.
+ * @returns A {@link IDisposable} that unregisters this provider when being disposed.
+ */
+export function registerWorkspaceSymbolProvider(provider: WorkspaceSymbolProvider): IDisposable;
+
+/**
+ * Search the symbols of the workspace with all registered workspace symbol providers.
+ *
+ * @param query The search query.
+ * @param token A cancellation token.
+ * @returns A promise that resolves to the merged symbols of the providers.
+ */
+export function provideWorkspaceSymbols(query: string, token?: CancellationToken): Promise<SymbolInformation[]>;
+
+/**
+ * Represents programming constructs like functions or constructors in the context
+ * of call hierarchy.
+ */
+export interface CallHierarchyItem {
+  /**
+   * The name of this item.
+   */
+  name: string;
+
+  /**
+   * The kind of this item.
+   */
+  kind: languages.SymbolKind;
+
+  /**
+   * Tags for this item.
+   */
+  tags?: languages.SymbolTag[];
+
+  /**
+   * More detail for this item, e.g. the signature of a function.
+   */
+  detail?: string;
+
+  /**
+   * The resource identifier of this item.
+   */
+  uri: Uri;
+
+  /**
+   * The range enclosing this symbol not including leading/trailing whitespace but everything else, e.g. comments and code.
+   */
+  range: IRange;
+
+  /**
+   * The range that should be selected and revealed when this symbol is being picked, e.g. the name of a function.
+   * Must be contained by the {@linkcode CallHierarchyItem.range range}.
+   */
+  selectionRange: IRange;
+
+  /**
+   * A data entry field that is preserved between a call hierarchy prepare and incoming calls or outgoing calls requests.
+   */
+  data?: unknown;
+}
+
+/**
+ * Represents an incoming call, e.g. a caller of a method or constructor.
+ */
+export interface CallHierarchyIncomingCall {
+  /**
+   * The item that makes the call.
+   */
+  from: CallHierarchyItem;
+
+  /**
+   * The range at which the calls appear. This is relative to the caller
+   * denoted by {@linkcode CallHierarchyIncomingCall.from this.from}.
+   */
+  fromRanges: IRange[];
+}
+
+/**
+ * Represents an outgoing call, e.g. calling a getter from a method or a method from a constructor etc.
+ */
+export interface CallHierarchyOutgoingCall {
+  /**
+   * The item that is called.
+   */
+  to: CallHierarchyItem;
+
+  /**
+   * The range at which this item is called. This is the range relative to the caller, e.g the item
+   * passed to {@linkcode CallHierarchyProvider.provideCallHierarchyOutgoingCalls provideCallHierarchyOutgoingCalls}
+   * and not {@linkcode CallHierarchyOutgoingCall.to this.to}.
+   */
+  fromRanges: IRange[];
+}
+
+/**
+ * The call hierarchy provider interface describes the contract between extensions
+ * and the call hierarchy feature which allows to browse calls and caller of function,
+ * methods, constructor etc.
+ */
+export interface CallHierarchyProvider {
+  /**
+   * Bootstraps call hierarchy by returning the item that is denoted by the given model
+   * and position. This item will be used as entry into the call graph. Providers should
+   * return `undefined` or `null` when there is no item at the given location.
+   *
+   * @param model The model in which the command was invoked.
+   * @param position The position at which the command was invoked.
+   * @param token A cancellation token.
+   * @returns One or multiple call hierarchy items or a thenable that resolves to such. The lack of a result can be
+   * signaled by returning `undefined`, `null`, or an empty array.
+   */
+  prepareCallHierarchy(
+    model: editor.ITextModel,
+    position: Position,
+    token: CancellationToken,
+  ): languages.ProviderResult<CallHierarchyItem | CallHierarchyItem[]>;
+
+  /**
+   * Provide all incoming calls for an item, e.g all callers for a method. In graph terms this describes directed
+   * and annotated edges inside the call graph, e.g the given item is the starting node and the result is the nodes
+   * that can be reached.
+   *
+   * @param item The hierarchy item for which incoming calls should be computed.
+   * @param token A cancellation token.
+   * @returns A set of incoming calls or a thenable that resolves to such. The lack of a result can be
+   * signaled by returning `undefined` or `null`.
+   */
+  provideCallHierarchyIncomingCalls(
+    item: CallHierarchyItem,
+    token: CancellationToken,
+  ): languages.ProviderResult<CallHierarchyIncomingCall[]>;
+
+  /**
+   * Provide all outgoing calls for an item, e.g call calls to functions, methods, or constructors from the given item. In
+   * graph terms this describes directed and annotated edges inside the call graph, e.g the given item is the starting
+   * node and the result is the nodes that can be reached.
+   *
+   * @param item The hierarchy item for which outgoing calls should be computed.
+   * @param token A cancellation token.
+   * @returns A set of outgoing calls or a thenable that resolves to such. The lack of a result can be
+   * signaled by returning `undefined` or `null`.
+   */
+  provideCallHierarchyOutgoingCalls(
+    item: CallHierarchyItem,
+    token: CancellationToken,
+  ): languages.ProviderResult<CallHierarchyOutgoingCall[]>;
+}
+
+/**
+ * Register a call hierarchy provider.
+ *
+ * Multiple providers can be registered for a language. In that case the provider that is registered last is used.
+ *
+ * @param languageId The language identifier of the models that the provider applies to.
+ * @param provider A call hierarchy provider.
+ * @returns A {@link IDisposable} that unregisters this provider when being disposed.
+ */
+export function registerCallHierarchyProvider(languageId: string, provider: CallHierarchyProvider): IDisposable;
+
+/**
+ * Prepare the call hierarchy at the position of the model with the registered providers.
+ *
+ * @param model The text model.
+ * @param position The position in the model.
+ * @param token A cancellation token.
+ * @returns A promise that resolves to the items at the position.
+ */
+export function prepareCallHierarchy(
+  model: editor.ITextModel,
+  position: IPosition,
+  token?: CancellationToken,
+): Promise<CallHierarchyItem[]>;
+
+/**
+ * Provide the incoming calls of an item that is returned by {@link prepareCallHierarchy} or the other call hierarchy functions.
+ *
+ * @param item The call hierarchy item.
+ * @param token A cancellation token.
+ * @returns A promise that resolves to the incoming calls of the item.
+ */
+export function provideIncomingCalls(item: CallHierarchyItem, token?: CancellationToken): Promise<CallHierarchyIncomingCall[]>;
+
+/**
+ * Provide the outgoing calls of an item that is returned by {@link prepareCallHierarchy} or the other call hierarchy functions.
+ *
+ * @param item The call hierarchy item.
+ * @param token A cancellation token.
+ * @returns A promise that resolves to the outgoing calls of the item.
+ */
+export function provideOutgoingCalls(item: CallHierarchyItem, token?: CancellationToken): Promise<CallHierarchyOutgoingCall[]>;
+
+/**
+ * Represents an item of a type hierarchy, like a class or an interface.
+ */
+export interface TypeHierarchyItem {
+  /**
+   * The name of this item.
+   */
+  name: string;
+
+  /**
+   * The kind of this item.
+   */
+  kind: languages.SymbolKind;
+
+  /**
+   * Tags for this item.
+   */
+  tags?: languages.SymbolTag[];
+
+  /**
+   * More detail for this item, e.g. the signature of a function.
+   */
+  detail?: string;
+
+  /**
+   * The resource identifier of this item.
+   */
+  uri: Uri;
+
+  /**
+   * The range enclosing this symbol not including leading/trailing whitespace
+   * but everything else, e.g. comments and code.
+   */
+  range: IRange;
+
+  /**
+   * The range that should be selected and revealed when this symbol is being
+   * picked, e.g. the name of a class. Must be contained by the {@link TypeHierarchyItem.range range}-property.
+   */
+  selectionRange: IRange;
+
+  /**
+   * A data entry field that is preserved between a type hierarchy prepare and supertypes or subtypes requests.
+   */
+  data?: unknown;
+}
+
+/**
+ * The type hierarchy provider interface describes the contract between extensions
+ * and the type hierarchy feature.
+ */
+export interface TypeHierarchyProvider {
+  /**
+   * Bootstraps type hierarchy by returning the item that is denoted by the given model
+   * and position. This item will be used as entry into the type graph. Providers should
+   * return `undefined` or `null` when there is no item at the given location.
+   *
+   * @param model The model in which the command was invoked.
+   * @param position The position at which the command was invoked.
+   * @param token A cancellation token.
+   * @returns One or multiple type hierarchy items or a thenable that resolves to such. The lack of a result can be
+   * signaled by returning `undefined`, `null`, or an empty array.
+   */
+  prepareTypeHierarchy(
+    model: editor.ITextModel,
+    position: Position,
+    token: CancellationToken,
+  ): languages.ProviderResult<TypeHierarchyItem | TypeHierarchyItem[]>;
+
+  /**
+   * Provide all supertypes for an item, e.g all types from which a type is derived/inherited. In graph terms this describes directed
+   * and annotated edges inside the type graph, e.g the given item is the starting node and the result is the nodes
+   * that can be reached.
+   *
+   * @param item The hierarchy item for which super types should be computed.
+   * @param token A cancellation token.
+   * @returns A set of direct supertypes or a thenable that resolves to such. The lack of a result can be
+   * signaled by returning `undefined` or `null`.
+   */
+  provideTypeHierarchySupertypes(item: TypeHierarchyItem, token: CancellationToken): languages.ProviderResult<TypeHierarchyItem[]>;
+
+  /**
+   * Provide all subtypes for an item, e.g all types which are derived/inherited from the given item. In
+   * graph terms this describes directed and annotated edges inside the type graph, e.g the given item is the starting
+   * node and the result is the nodes that can be reached.
+   *
+   * @param item The hierarchy item for which subtypes should be computed.
+   * @param token A cancellation token.
+   * @returns A set of direct subtypes or a thenable that resolves to such. The lack of a result can be
+   * signaled by returning `undefined` or `null`.
+   */
+  provideTypeHierarchySubtypes(item: TypeHierarchyItem, token: CancellationToken): languages.ProviderResult<TypeHierarchyItem[]>;
+}
+
+/**
+ * Register a type hierarchy provider.
+ *
+ * Multiple providers can be registered for a language. In that case the provider that is registered last is used.
+ *
+ * @param languageId The language identifier of the models that the provider applies to.
+ * @param provider A type hierarchy provider.
+ * @returns A {@link IDisposable} that unregisters this provider when being disposed.
+ */
+export function registerTypeHierarchyProvider(languageId: string, provider: TypeHierarchyProvider): IDisposable;
+
+/**
+ * Prepare the type hierarchy at the position of the model with the registered providers.
+ *
+ * @param model The text model.
+ * @param position The position in the model.
+ * @param token A cancellation token.
+ * @returns A promise that resolves to the items at the position.
+ */
+export function prepareTypeHierarchy(
+  model: editor.ITextModel,
+  position: IPosition,
+  token?: CancellationToken,
+): Promise<TypeHierarchyItem[]>;
+
+/**
+ * Provide the direct supertypes of an item that is returned by {@link prepareTypeHierarchy} or the other type hierarchy functions.
+ *
+ * @param item The type hierarchy item.
+ * @param token A cancellation token.
+ * @returns A promise that resolves to the supertypes of the item.
+ */
+export function provideSupertypes(item: TypeHierarchyItem, token?: CancellationToken): Promise<TypeHierarchyItem[]>;
+
+/**
+ * Provide the direct subtypes of an item that is returned by {@link prepareTypeHierarchy} or the other type hierarchy functions.
+ *
+ * @param item The type hierarchy item.
+ * @param token A cancellation token.
+ * @returns A promise that resolves to the subtypes of the item.
+ */
+export function provideSubtypes(item: TypeHierarchyItem, token?: CancellationToken): Promise<TypeHierarchyItem[]>;
@@ -1,30 +1,191 @@
-import type { editor } from "./monaco.d.ts";
+import type { editor, IRange, MarkerSeverity, MarkerTag, Uri } from "./monaco.d.ts";
 import type { showInputBox, showQuickPick } from "./vscode.d.ts";
 
 export interface WorkspaceInit {
   /** name of the workspace. */
   name?: string;
+  /** where to store the workspace files, ignored if `customFS` is provided. Default is "indexeddb". */
+  storage?: "indexeddb" | "memory" | "opfs";
   /** initial files in the workspace */
   initialFiles?: Record<string, string | Uint8Array>;
+  /** the version of the `initialFiles`, the files are upgraded with the `onUpgrade` strategy when the version changes. */
+  version?: string | number;
+  /**
+   * how to upgrade the files when the `version` changes. Default is "keep-user".
+   * - "keep-user": update the files that are not changed by the user, keep the changed files.
+   * - "overwrite": replace all the files with the new template.
+   * - "three-way-merge": merge the changes of the template into the user's files, conflicts are marked with `<<<<<<<`/`>>>>>>>`.
+   * - callback: returns the new content of the file, `null` to delete the file, or `undefined` to keep the user's file.
+   */
+  onUpgrade?:
+    | "keep-user"
+    | "overwrite"
+    | "three-way-merge"
+    | ((file: WorkspaceUpgradeFile) => string | Uint8Array | null | undefined | Promise<string | Uint8Array | null | undefined>);
+  /**
+   * record the snapshots of the files on save, the snapshots are stored in IndexedDB. Default is `true`.
+   * - `interval`: the saves within the interval (in milliseconds) after a snapshot is created are merged into it. Default is 10000.
+   * - `maxSnapshots`: the maximum number of snapshots kept per file. Default is 50.
+   */
+  localHistory?: boolean | { interval?: number; maxSnapshots?: number };
+  /** the maximum number of undo steps that are persisted per file, set to `0` to disable. Default is 100. */
+  maxUndoHistory?: number;
+  /**
+   * when to save the changes of the open documents. Default is "afterDelay".
+   * - "off": the changes are saved by `workspace.save` or the "File: Save" command only.
+   * - "afterDelay": the changes are saved 500ms after the last edit.
+   * - "onFocusChange": the changes are saved when the editor loses focus or switches to another document.
+   */
+  autoSave?: "off" | "afterDelay" | "onFocusChange";
   /** file to open when the editor is loaded at first time */
   entryFile?: string;
   /** whether to use browser history for navigation. */
   browserHistory?: boolean | { basePath: string };
   /** custom filesystem implementation to override the default IndexedDB filesystem */
   customFS?: FileSystem;
+  /**
+   * validate all the TS/JS/CSS/JSON/HTML files of the workspace in the background, not only the open documents.
+   * Default is `false`.
+   */
+  projectDiagnostics?: boolean;
+  /** edit the open documents with the peers in real time, the changes are exchanged through the `transport`. */
+  collaboration?: CollaborationOptions;
 }
 
 export class Workspace {
   constructor(options?: WorkspaceInit);
   readonly entryFile?: string;
-  readonly fs: FileSystem;
+  readonly autoSave: NonNullable<WorkspaceInit["autoSave"]>;
+  readonly fs: FileSystem & { batch: NonNullable<FileSystem["batch"]> };
+  /** The history of the "main" editor group. */
   readonly history: WorkspaceHistory;
+  /** The open files of the "main" editor group. */
+  readonly tabs: WorkspaceTabs;
+  /** The view state of the "main" editor group. */
   readonly viewState: WorkspaceViewState;
+  /** The editor groups of the workspace, each `<monaco-editor>` element is bound to a group. */
+  readonly editorGroups: readonly WorkspaceEditorGroup[];
+  /** The diagnostics of the workspace files reported by the language servers. */
+  readonly diagnostics: WorkspaceDiagnostics;
+  /** Get the editor group by id, the group is created if it doesn't exist. Default is "main". */
+  getEditorGroup(id?: string): WorkspaceEditorGroup;
+  /**
+   * Open the document in the editor, the editor is the focused one, or the editor of the last focused group
+   * if the `editor` is not provided.
+   */
   openTextDocument(uri: string | URL, content?: string, editor?: editor.ICodeEditor): Promise<editor.ITextModel>;
+  /** Check if the document has unsaved changes. */
+  isDirty(uri: string | URL): boolean;
+  /** Save the unsaved changes of the document, the changes outside the editor are overwritten if the document is conflicted. */
+  save(uri: string | URL): Promise<void>;
+  /** Save the unsaved changes of all documents. */
+  saveAll(): Promise<void>;
+  /** Discard the unsaved changes of the document and reload the file, the change can be undone in the editor. */
+  revert(uri: string | URL): Promise<void>;
+  /** The callback is called when a document gets or loses unsaved changes. */
+  onDidChangeDirty(callback: (url: string, dirty: boolean) => void): () => void;
+  /** Check if the file of the document is changed outside the editor while the document has unsaved changes. */
+  hasConflict(uri: string | URL): boolean;
+  /** Resolve the conflict by keeping the unsaved changes ("mine"), or taking the content of the file ("theirs"). */
+  resolveConflict(uri: string | URL, resolution: "mine" | "theirs"): Promise<void>;
+  /** The callback is called when a document becomes conflicted or the conflict is resolved. */
+  onDidChangeConflict(callback: (url: string, conflicted: boolean) => void): () => void;
+  /** Export the files of the workspace as a zip or tar archive. */
+  export(options?: WorkspaceExportOptions): Promise<Uint8Array>;
+  /** Import the files from a zip or tar(.gz) archive into the workspace. */
+  import(archive: Blob | ArrayBuffer | Uint8Array, options?: WorkspaceImportOptions): Promise<void>;
+  /** Search the text in the workspace files, the unsaved changes of the open documents are included. */
+  search(query: string, options?: WorkspaceSearchOptions): AsyncIterable<WorkspaceSearchMatch>;
+  /**
+   * Replace all matches in the workspace files, returns the number of the replaced matches.
+   * The open documents are edited as one undoable operation per document, other files are written directly.
+   */
+  replaceAll(query: string, replacement: string, options?: WorkspaceSearchOptions): Promise<number>;
   showInputBox: typeof showInputBox;
   showQuickPick: typeof showQuickPick;
 }
 
+export interface WorkspaceUpgradeFile {
+  /** The path of the file. */
+  path: string;
+  /** The version of the old template. */
+  oldVersion: string | number;
+  /** The version of the new template. */
+  newVersion: string | number;
+  /** The content of the file in the old template, `undefined` if the file is added by the new template. */
+  oldTemplate?: string | Uint8Array;
+  /** The content of the file in the new template, `undefined` if the file is removed from the new template. */
+  newTemplate?: string | Uint8Array;
+  /** The content of the user's file, `undefined` if the file is deleted by the user. */
+  user?: string | Uint8Array;
+}
+
+export interface WorkspaceExportOptions {
+  /** The archive format. Default is "zip". */
+  format?: "zip" | "tar";
+  /** The directory to export. Default is "/". */
+  dir?: string;
+}
+
+export interface WorkspaceImportOptions {
+  /** The directory to unpack the archive into. Default is "/". */
+  dir?: string;
+  /** Whether to overwrite the existing files. Default is false. */
+  overwrite?: boolean;
+}
+
+export interface WorkspaceSearchOptions {
+  /** Whether the query is a regular expression, the replacement can use `$1`, `$<name>` and `$&` then. */
+  regex?: boolean;
+  caseSensitive?: boolean;
+  /** Whether to match whole words only. */
+  wholeWord?: boolean;
+  /** The glob patterns of the files to search, e.g. `src/**`, `*.{ts,tsx}`. */
+  include?: string | string[];
+  /** The glob patterns of the files to skip. */
+  exclude?: string | string[];
+  /** The maximum number of matches to return. Ignored by `replaceAll`. */
+  maxResults?: number;
+}
+
+export interface WorkspaceSearchMatch {
+  /** The URL of the file. */
+  readonly url: string;
+  /** The range of the match. */
+  readonly range: IRange;
+  /** The matched text. */
+  readonly text: string;
+  /** The text of the line where the match starts. */
+  readonly lineText: string;
+}
+
+export interface WorkspaceDiagnostic {
+  /** The URL of the file. */
+  readonly url: string;
+  /** The owner of the diagnostic, usually the language id. */
+  readonly owner: string;
+  readonly severity: MarkerSeverity;
+  readonly message: string;
+  /** The source of the diagnostic, e.g. "ts". */
+  readonly source?: string;
+  /** The code of the diagnostic, the `target` links to the description of the code. */
+  readonly code?: string | { value: string; target: Uri };
+  readonly startLineNumber: number;
+  readonly startColumn: number;
+  readonly endLineNumber: number;
+  readonly endColumn: number;
+  readonly modelVersionId?: number;
+  readonly relatedInformation?: editor.IRelatedInformation[];
+  readonly tags?: MarkerTag[];
+}
+
+export interface WorkspaceDiagnostics {
+  /** Get the diagnostics of all files, sorted by the file URL and the position. */
+  getAll(): WorkspaceDiagnostic[];
+  /** The callback is called with the URLs of the files whose diagnostics are changed. */
+  onDidChange(callback: (urls: readonly string[]) => void): () => void;
+}
+
 export interface WorkspaceViewState {
   get(uri: string | URL): Promise<editor.ICodeEditorViewState | undefined>;
   save(uri: string | URL, viewState: editor.ICodeEditorViewState): Promise<void>;
@@ -36,11 +197,55 @@ export interface WorkspaceHistoryState {
 
 export interface WorkspaceHistory {
   readonly state: WorkspaceHistoryState;
+  /** The URLs of the recently opened files, the latest first. */
+  readonly recent: readonly string[];
   back(): void;
   forward(): void;
   push(path: string): void;
   replace(path: string): void;
   onChange(callback: (state: WorkspaceHistoryState) => void): () => void;
+  /** List the local history snapshots of the file, the latest first. */
+  listSnapshots(path: string): Promise<WorkspaceSnapshot[]>;
+  /** Restore the file to the content of the snapshot. */
+  restoreSnapshot(id: string): Promise<void>;
+}
+
+export interface WorkspaceEditorGroup {
+  readonly id: string;
+  readonly history: WorkspaceHistory;
+  readonly tabs: WorkspaceTabs;
+  readonly viewState: WorkspaceViewState;
+  /** The editor bound to the group, `undefined` if no editor is bound to the group. */
+  readonly editor?: editor.ICodeEditor;
+}
+
+export interface WorkspaceTabsState {
+  /** The URLs of the open files, in the tab order. */
+  readonly files: readonly string[];
+  /** The URLs of the open files that have unsaved changes. */
+  readonly dirty: readonly string[];
+}
+
+export interface WorkspaceTabs {
+  readonly state: WorkspaceTabsState;
+  /** Add the file to the open files if it's not opened yet. */
+  open(path: string): void;
+  /** Remove the file from the open files. */
+  close(path: string): void;
+  /** Move the tab of the file to the index. */
+  move(path: string, index: number): void;
+  onChange(callback: (state: WorkspaceTabsState) => void): () => void;
+}
+
+export interface WorkspaceSnapshot {
+  readonly id: string;
+  /** The URL of the file. */
+  readonly url: string;
+  /** The time when the snapshot is created, the saves within the interval after it are merged into the snapshot. */
+  readonly created: number;
+  /** The time when the snapshot is saved. */
+  readonly time: number;
+  readonly content: string;
 }
 
 /**
@@ -68,7 +273,26 @@ export interface FileStat {
   readonly size: number;
 }
 
+export interface FileSystemTransaction {
+  copy(source: string, target: string, options?: { overwrite: boolean }): Promise<void>;
+  createDirectory(dir: string): Promise<void>;
+  delete(filename: string, options?: { recursive: boolean }): Promise<void>;
+  readDirectory(filename: string): Promise<[string, number][]>;
+  readFile(filename: string): Promise<Uint8Array>;
+  readTextFile(filename: string): Promise<string>;
+  rename(oldName: string, newName: string, options?: { overwrite: boolean }): Promise<void>;
+  stat(filename: string): Promise<FileStat>;
+  writeFile(filename: string, content: string | Uint8Array): Promise<void>;
+}
+
 export interface FileSystem {
+  /**
+   * Run the callback with a transaction, all changes made through the transaction are committed at once
+   * after the callback returns, and nothing is committed if the callback throws.
+   * Watchers receive one notification per affected path after the commit.
+   * When a custom filesystem doesn't implement this method, the workspace provides a non-atomic fallback.
+   */
+  batch?(callback: (tx: FileSystemTransaction) => void | Promise<void>): Promise<void>;
   copy(source: string, target: string, options?: { overwrite: boolean }): Promise<void>;
   createDirectory(dir: string): Promise<void>;
   delete(filename: string, options?: { recursive: boolean }): Promise<void>;
@@ -83,3 +307,189 @@ export interface FileSystem {
 }
 
 export class NotFoundError extends Error {}
+
+/** A filesystem that keeps the files in memory, the data is lost when the page is closed. */
+export class MemoryFileSystem implements FileSystem {
+  /** @param initialFiles The files to create, e.g. `{ "src/index.ts": "..." }`. */
+  constructor(initialFiles?: Record<string, string | Uint8Array>);
+  batch(callback: (tx: FileSystemTransaction) => void | Promise<void>): Promise<void>;
+  copy(source: string, target: string, options?: { overwrite: boolean }): Promise<void>;
+  createDirectory(dir: string): Promise<void>;
+  delete(filename: string, options?: { recursive: boolean }): Promise<void>;
+  readDirectory(filename: string): Promise<[string, number][]>;
+  readFile(filename: string): Promise<Uint8Array>;
+  readTextFile(filename: string): Promise<string>;
+  rename(oldName: string, newName: string, options?: { overwrite: boolean }): Promise<void>;
+  stat(filename: string): Promise<FileStat>;
+  writeFile(filename: string, content: string | Uint8Array, context?: FileSystemWatchContext): Promise<void>;
+  watch(filename: string, options: { recursive: boolean }, handle: FileSystemWatchHandle): () => void;
+  watch(filename: string, handle: FileSystemWatchHandle): () => void;
+}
+
+/** A filesystem that stores the files in the Origin Private File System (OPFS). */
+export class OPFSFileSystem implements FileSystem {
+  constructor(scope: string);
+  /**
+   * Copy the files of the IndexedDB workspace `modern-monaco-workspace(<name>)` into OPFS.
+   * The existing files are kept unless `overwrite` is true. Returns false if the database doesn't exist or nothing is copied.
+   */
+  migrateFromIndexedDB(workspaceName?: string, options?: { overwrite?: boolean }): Promise<boolean>;
+  batch(callback: (tx: FileSystemTransaction) => void | Promise<void>): Promise<void>;
+  copy(source: string, target: string, options?: { overwrite: boolean }): Promise<void>;
+  createDirectory(dir: string): Promise<void>;
+  delete(filename: string, options?: { recursive: boolean }): Promise<void>;
+  readDirectory(filename: string): Promise<[string, number][]>;
+  readFile(filename: string): Promise<Uint8Array>;
+  readTextFile(filename: string): Promise<string>;
+  rename(oldName: string, newName: string, options?: { overwrite: boolean }): Promise<void>;
+  stat(filename: string): Promise<FileStat>;
+  writeFile(filename: string, content: string | Uint8Array, context?: FileSystemWatchContext): Promise<void>;
+  watch(filename: string, options: { recursive: boolean }, handle: FileSystemWatchHandle): () => void;
+  watch(filename: string, handle: FileSystemWatchHandle): () => void;
+}
+
+/** A filesystem that reads and writes a local folder opened by the File System Access API. */
+export class LocalFileSystem implements FileSystem {
+  /**
+   * @param handle The directory handle, e.g. returned by `window.showDirectoryPicker()`.
+   * @param options.mode The access mode, default is "readwrite".
+   * @param options.pollInterval The interval in milliseconds to detect the changes made outside of the browser, default is 2000.
+   */
+  constructor(handle: FileSystemDirectoryHandle, options?: { mode?: "read" | "readwrite"; pollInterval?: number });
+  /** The name of the local folder. */
+  readonly name: string;
+  /**
+   * Request the permission to access the folder, for example when the handle is restored from IndexedDB
+   * after a page reload. Browsers only show the permission prompt during a user gesture.
+   */
+  requestPermission(): Promise<boolean>;
+  batch(callback: (tx: FileSystemTransaction) => void | Promise<void>): Promise<void>;
+  copy(source: string, target: string, options?: { overwrite: boolean }): Promise<void>;
+  createDirectory(dir: string): Promise<void>;
+  delete(filename: string, options?: { recursive: boolean }): Promise<void>;
+  readDirectory(filename: string): Promise<[string, number][]>;
+  readFile(filename: string): Promise<Uint8Array>;
+  readTextFile(filename: string): Promise<string>;
+  rename(oldName: string, newName: string, options?: { overwrite: boolean }): Promise<void>;
+  stat(filename: string): Promise<FileStat>;
+  writeFile(filename: string, content: string | Uint8Array, context?: FileSystemWatchContext): Promise<void>;
+  watch(filename: string, options: { recursive: boolean }, handle: FileSystemWatchHandle): () => void;
+  watch(filename: string, handle: FileSystemWatchHandle): () => void;
+}
+
+/** A filesystem that stores the files in IndexedDB, the default filesystem of the workspace. */
+export class IndexedDBFileSystem implements FileSystem {
+  /** @param scope The database name, the workspace uses `modern-monaco-workspace(<name>)`. */
+  constructor(scope: string);
+  /** Close the database connection, the filesystem can't be used after closing. */
+  close(): Promise<void>;
+  batch(callback: (tx: FileSystemTransaction) => void | Promise<void>): Promise<void>;
+  copy(source: string, target: string, options?: { overwrite: boolean }): Promise<void>;
+  createDirectory(dir: string): Promise<void>;
+  delete(filename: string, options?: { recursive: boolean }): Promise<void>;
+  readDirectory(filename: string): Promise<[string, number][]>;
+  readFile(filename: string): Promise<Uint8Array>;
+  readTextFile(filename: string): Promise<string>;
+  rename(oldName: string, newName: string, options?: { overwrite: boolean }): Promise<void>;
+  stat(filename: string): Promise<FileStat>;
+  writeFile(filename: string, content: string | Uint8Array, context?: FileSystemWatchContext): Promise<void>;
+  watch(filename: string, options: { recursive: boolean }, handle: FileSystemWatchHandle): () => void;
+  watch(filename: string, handle: FileSystemWatchHandle): () => void;
+}
+
+export interface OverlayFileChange {
+  path: string;
+  status: "added" | "modified" | "deleted";
+}
+
+/**
+ * A filesystem that reads through to the read-only `base` layer and writes the changes into the `upper` layer.
+ * The deleted files of the base layer are recorded as whiteouts in the upper layer.
+ */
+export class OverlayFileSystem implements FileSystem {
+  constructor(base: FileSystem, upper: FileSystem);
+  /** Get the files that are added, modified or deleted compared to the base layer. */
+  getChangedFiles(): Promise<OverlayFileChange[]>;
+  /** Revert the file or directory to the content of the base layer, the added files under the path are removed. */
+  revert(path: string): Promise<void>;
+  /** Stop watching the changes of the base layer. */
+  dispose(): void;
+  batch(callback: (tx: FileSystemTransaction) => void | Promise<void>): Promise<void>;
+  copy(source: string, target: string, options?: { overwrite: boolean }): Promise<void>;
+  createDirectory(dir: string): Promise<void>;
+  delete(filename: string, options?: { recursive: boolean }): Promise<void>;
+  readDirectory(filename: string): Promise<[string, number][]>;
+  readFile(filename: string): Promise<Uint8Array>;
+  readTextFile(filename: string): Promise<string>;
+  rename(oldName: string, newName: string, options?: { overwrite: boolean }): Promise<void>;
+  stat(filename: string): Promise<FileStat>;
+  writeFile(filename: string, content: string | Uint8Array, context?: FileSystemWatchContext): Promise<void>;
+  watch(filename: string, options: { recursive: boolean }, handle: FileSystemWatchHandle): () => void;
+  watch(filename: string, handle: FileSystemWatchHandle): () => void;
+}
+
+export interface CollaborationOptions {
+  /** The transport to exchange the messages with the peers, e.g. `new BroadcastChannelTransport("my-room")`. */
+  transport: CollabTransport;
+  /** The user shown to the peers, the color is picked from a palette if it's not provided. */
+  user?: CollabUser;
+  /** Create the shared text of a document, the built-in CRDT is used if it's not provided. */
+  createSharedText?: (client: string, text: string) => SharedText;
+}
+
+export interface CollabUser {
+  name: string;
+  color?: string;
+}
+
+export interface CollabSelection {
+  /** The relative position where the selection starts. */
+  anchor: unknown;
+  /** The relative position of the cursor. */
+  head: unknown;
+}
+
+export type CollabMessage =
+  | { type: "join"; client: string; url: string }
+  | { type: "state"; client: string; url: string; to: string; update: unknown }
+  | { type: "update"; client: string; url: string; update: unknown }
+  | { type: "awareness"; client: string; user: CollabUser; url?: string; selections?: CollabSelection[] }
+  | { type: "leave"; client: string };
+
+/** The transport of the collaboration messages, the messages are JSON serializable. */
+export interface CollabTransport {
+  send(message: CollabMessage): void;
+  onMessage(handler: (message: CollabMessage) => void): () => void;
+}
+
+/** A transport that exchanges the messages between the browser tabs of the same origin. */
+export class BroadcastChannelTransport implements CollabTransport {
+  constructor(name?: string);
+  send(message: CollabMessage): void;
+  onMessage(handler: (message: CollabMessage) => void): () => void;
+  close(): void;
+}
+
+export interface TextChange {
+  /** The offset of the change in the text. */
+  offset: number;
+  /** The length of the replaced text. */
+  length: number;
+  /** The new text. */
+  text: string;
+}
+
+/** A shared text backed by a CRDT, the updates are JSON serializable. */
+export interface SharedText {
+  getText(): string;
+  /** Apply the local changes, the changes are applied in order. Returns the update to send to the peers. */
+  applyLocalChanges(changes: TextChange[]): unknown;
+  /** Apply the update or the state of a peer. Returns the changes to apply to the document in order. */
+  applyUpdate(update: unknown): TextChange[];
+  /** Encode the whole state of the text to sync with a new peer. */
+  encodeState(): unknown;
+  /** Create a position that sticks to the text at the offset when the text is changed concurrently. */
+  createRelativePosition(offset: number): unknown;
+  /** Resolve the relative position to the offset, returns `null` if the position is unknown. */
+  resolveRelativePosition(position: unknown): number | null;
+}